@@ -1,29 +1,55 @@
 import 'dotenv/config'
 import {
-  WalletClient,
   Script,
-  Utils,
-  Hash,
-  PushDrop,
   TopicBroadcaster,
   Transaction,
-  LookupResolver
+  LookupResolver,
+  LockingScript,
+  Utils
 } from '@bsv/sdk'
 import * as readline from 'readline/promises'
 import { stdin as input, stdout as output } from 'process'
+import { pathToFileURL } from 'url'
+import { GENESIS_TOKEN_ID, deriveTokenId } from '../services/token/TokenId.js'
+import {
+  MAX_TOKEN_AMOUNT,
+  decodeMintAuthorityScript,
+  lockMintAuthority,
+  lockTokenOutput,
+  parseTokenAmount,
+  unlockTokenOutput
+} from '../services/token/TokenOutput.js'
+import { TokenWallet, createTokenWallet, walletChecklist, walletName } from '../services/wallet/TokenWallet.js'
+import {
+  SubmitResult,
+  TOKEN_TOPIC,
+  TokenSubmitter,
+  describeSubmitResult
+} from '../services/token/TokenSubmitter.js'
+import { TokenRejection, formatRejection } from '../services/token/TokenValidation.js'
 
 const {
   IDENTITY_KEY,
   ORIGINATOR = 'tokenisation-workshop.local',
+  WALLET_BACKEND,
+  MINTER_PRIVATE_KEY,
+  LOCAL_WALLET_FILE,
+  ARC_URL,
+  ARC_API_KEY,
+  FEE_RATE,
+  SUBMIT_MAX_ATTEMPTS = '5',
   OVERLAY_URL = 'http://localhost:8080'
 } = process.env
 
-interface TokenMetadata {
+export interface TokenMetadata {
   name: string
   symbol: string
   decimals: number
   description?: string
-  totalSupply: number
+  icon?: string  // Icon URL, recorded in the overlay's token registry
+  totalSupply: string  // Decimal string, so supplies above 2^53 survive JSON
+  mintable?: boolean  // Create a mint authority so more can be minted later
+  maxSupply?: string  // Optional cap on everything ever minted (mintable tokens)
 }
 
 /**
@@ -37,17 +63,37 @@ interface TokenMetadata {
  *   - Wallet unlocked
  *   - BSV funds for transaction fees
  *
- * Creates token outputs with this format:
- *   OP_0 OP_RETURN 'TOKEN' <tokenId> <amount> <metadata>
+ * Creates spendable PushDrop token outputs using the shared token field
+ * layout (see services/token/TokenOutput.ts).
  */
-class MintApp {
-  private wallet: WalletClient
+export class MintApp {
+  private tokenWallet?: TokenWallet
+  private submitter: TokenSubmitter
   private identityKey: string | null = null
 
   constructor() {
-    // Initialize WalletClient with originator (required in Node.js)
-    // The originator identifies your application to the wallet
-    this.wallet = new WalletClient('auto', ORIGINATOR)
+    this.submitter = new TokenSubmitter({
+      overlayUrl: OVERLAY_URL,
+      maxAttempts: parseInt(SUBMIT_MAX_ATTEMPTS)
+    })
+  }
+
+  /**
+   * BSV Desktop Wallet by default (the originator identifies this app to
+   * it), or a local private-key wallet with WALLET_BACKEND=local. Created on
+   * first use, so overlay queries work without any wallet configured.
+   */
+  private get wallet(): TokenWallet {
+    this.tokenWallet ??= createTokenWallet({
+      originator: ORIGINATOR,
+      backend: WALLET_BACKEND,
+      privateKey: MINTER_PRIVATE_KEY,
+      utxoFile: LOCAL_WALLET_FILE,
+      arcUrl: ARC_URL,
+      arcApiKey: ARC_API_KEY,
+      feeRate: FEE_RATE ? Number(FEE_RATE) : undefined
+    })
+    return this.tokenWallet
   }
 
   /**
@@ -55,7 +101,7 @@ class MintApp {
    */
   async initialize(): Promise<void> {
     try {
-      console.log('🔌 Connecting to BSV Desktop Wallet...')
+      console.log(`🔌 Connecting to ${walletName(WALLET_BACKEND)}...`)
 
       // Get identity key from wallet
       const keyResult = await this.wallet.getPublicKey({ identityKey: true })
@@ -70,55 +116,32 @@ class MintApp {
       }
     } catch (error: any) {
       throw new Error(
-        `Failed to connect to BSV Desktop Wallet: ${error.message}\n\n` +
+        `Failed to connect to ${walletName(WALLET_BACKEND)}: ${error.message}\n\n` +
         `Make sure:\n` +
-        `  1. BSV Desktop Wallet is running\n` +
-        `  2. Your wallet is unlocked\n` +
-        `  3. Wallet connection is available`
+        walletChecklist(WALLET_BACKEND, 'MINTER_PRIVATE_KEY').map((check, i) => `  ${i + 1}. ${check}`).join('\n')
       )
     }
   }
 
   /**
-   * Generate a unique token ID (32 bytes from identity key + timestamp)
-   */
-  generateTokenId(): string {
-    return '0000000000000000000000000000000000000000000000000000000000000001'
-    const timestamp = Date.now().toString()
-    const combined = (this.identityKey || 'default') + timestamp
-
-    // Double SHA256 to get 32 bytes
-    const hashBytes = Hash.hash256(combined, 'utf8')
-    return Utils.toHex(hashBytes)
-  }
-
-  /**
-   * Create spendable PushDrop token script
-   * Format: <lockingKey> OP_DROP <protocol> <tokenId> <amount> <ownerKey> <metadata> OP_DROP
+   * Create spendable PushDrop token script, owned by (and spendable with) this wallet's identity key
+   * Format: <lockingKey> OP_CHECKSIG <protocol> <version> <tokenId> <amount> <ownerKey> <metadata> OP_2DROP...
    */
   async createTokenScript(
     tokenId: string,
-    amount: number,
+    amount: bigint,
     metadata: TokenMetadata
   ): Promise<Script> {
-    // Convert amount to 8-byte little-endian buffer
-    const aWriter = new Utils.Writer()
-    aWriter.writeUInt64LE(amount)
-    const amountArr = aWriter.toArray()
-
-    const fields = [
-      Utils.toArray('TOKEN', 'utf8'),
-      Utils.toArray(tokenId, 'hex'),
-      amountArr,
-      Utils.toArray(JSON.stringify(metadata), 'utf8')
-    ]
-
-    // Build PushDrop script manually with OP_DROP
-    // Format: <data> OP_DROPS <lockingKey>
-    const token = new PushDrop(this.wallet, ORIGINATOR)
-    const script = await token.lock(fields, [0, 'workshop tokens'], 'mint-output', 'self', true, true)
-
-    return script
+    if (!this.identityKey) {
+      throw new Error('Wallet not initialized')
+    }
+
+    return await lockTokenOutput({
+      tokenId,
+      amount,
+      ownerKey: this.identityKey,
+      metadata
+    })
   }
 
   /**
@@ -127,31 +150,54 @@ class MintApp {
   async mint(metadata: TokenMetadata): Promise<{
     txid: string
     tokenId: string
-    amount: number
+    amount: bigint
+    rejections: TokenRejection[]  // Why the overlay did not admit token outputs, if it did not
+    unsubmitted: boolean  // Broadcast, but the overlay could not be reached
+    beef?: string  // Atomic BEEF in hex of an unsubmitted transaction, to resubmit it
   }> {
     try {
       console.log('\n🪙  Minting new token...')
 
-      // Generate unique token ID
-      const tokenId = this.generateTokenId()
-      console.log(`🆔 Token ID: ${tokenId}`)
+      const amount = parseTokenAmount(metadata.totalSupply)
+      if (amount === undefined) {
+        throw new Error(`Invalid total supply: ${metadata.totalSupply}`)
+      }
 
-      // Create the spendable token output script using PushDrop
+      // The mint output declares the genesis placeholder; its real token ID
+      // is derived from the outpoint once the transaction exists
       console.log('\n📝 Creating transaction...')
-      const tokenScript = await this.createTokenScript(tokenId, metadata.totalSupply, metadata)
+      const tokenScript = await this.createTokenScript(GENESIS_TOKEN_ID, amount, metadata)
+      const outputs = [
+        {
+          lockingScript: tokenScript.toHex(),
+          satoshis: 1,
+          outputDescription: 'Spendable PushDrop token mint',
+          basket: 'workshop tokens',
+          tags: ['workshop', 'mint']
+        }
+      ]
+
+      // A mintable token also gets its mint authority, locked to this wallet
+      if (metadata.mintable) {
+        const authorityScript = await lockMintAuthority({
+          tokenId: GENESIS_TOKEN_ID,
+          issuerKey: this.identityKey!,
+          maxSupply: parseTokenAmount(metadata.maxSupply),
+          totalMinted: amount
+        })
+        outputs.push({
+          lockingScript: authorityScript.toHex(),
+          satoshis: 1,
+          outputDescription: 'Token mint authority',
+          basket: 'workshop tokens',
+          tags: ['workshop', 'mint-authority']
+        })
+      }
 
       // Create transaction with wallet
       console.log('   Requesting transaction from wallet...')
       const createResult = await this.wallet.createAction({
-        outputs: [
-          {
-            lockingScript: tokenScript.toHex(),
-            satoshis: 1,
-            outputDescription: 'Spendable PushDrop token mint',
-            basket: 'workshop tokens',
-            tags: ['workshop', 'mint']
-          }
-        ],
+        outputs,
         options: {
           randomizeOutputs: false,
           // noSend: true
@@ -166,24 +212,17 @@ class MintApp {
         throw new Error('No TXID returned from wallet')
       }
 
-      const tx = Transaction.fromBEEF(createResult.tx as number[])
-
-      const headers = {
-        'Content-Type': 'application/octet-stream',
-        'X-Topics': JSON.stringify(['tm_tokens'])
-      }
+      // The mint output is output 0 (outputs are not randomized)
+      const tokenId = deriveTokenId(txid, 0)
+      console.log(`🆔 Token ID: ${tokenId}`)
 
-      const response = await (await fetch(OVERLAY_URL + '/submit', {
-        method: 'post',
-        headers,
-        body: new Uint8Array(tx.toBEEF())
-      })).json()
-      console.log(response)
+      const submitted = await this.submitToOverlay(createResult.tx as number[])
 
       return {
         txid,
         tokenId,
-        amount: metadata.totalSupply
+        amount,
+        ...this.submission(createResult.tx as number[], submitted)
       }
     } catch (error: any) {
       console.error('Error minting token:', error)
@@ -192,57 +231,221 @@ class MintApp {
   }
 
   /**
-   * Submit transaction to overlay server for indexing
+   * Mint more of a mintable token by spending its mint authority and
+   * re-creating it with the new running total
    */
-  async submitToOverlay(txid: string): Promise<void> {
+  async remint(tokenId: string, amount: bigint): Promise<{
+    txid: string
+    tokenId: string
+    amount: bigint
+    totalMinted: bigint
+    rejections: TokenRejection[]
+    unsubmitted: boolean
+    beef?: string
+  }> {
+    if (!this.identityKey) {
+      throw new Error('Wallet not initialized')
+    }
+
     try {
-      console.log('\n📤 Submitting transaction to overlay server...')
-      console.log('   Waiting for transaction to be confirmed...')
-
-      // Retry up to 6 times (30 seconds total)
-      let txFound = false
-      for (let attempt = 1; attempt <= 6; attempt++) {
-        await new Promise(resolve => setTimeout(resolve, 5000))
-
-        console.log(`   Attempt ${attempt}/6: Checking blockchain...`)
-        const wocResponse = await fetch(`https://api.whatsonchain.com/v1/bsv/main/tx/${txid}/hex`)
-
-        if (wocResponse.ok) {
-          txFound = true
-          console.log('   ✓ Transaction confirmed on blockchain')
-          break
-        } else if (attempt < 6) {
-          console.log(`   Transaction not yet available, waiting...`)
-        }
+      console.log('\n🪙  Minting additional supply...')
+
+      // Find the current mint authority and its BEEF
+      console.log('   Fetching mint authority from overlay...')
+      const { beef, txid: authorityTxid, outputIndex, lockingScript, satoshis } = await this.fetchMintAuthority(tokenId)
+      const authority = decodeMintAuthorityScript(lockingScript)!
+
+      if (authority.issuerKey !== this.identityKey) {
+        throw new Error(`The mint authority belongs to ${authority.issuerKey}, not this wallet`)
       }
 
-      if (!txFound) {
-        throw new Error('Transaction not found on WhatsOnChain after 30 seconds')
+      const totalMinted = authority.totalMinted + amount
+      if (totalMinted > MAX_TOKEN_AMOUNT || (authority.maxSupply !== undefined && totalMinted > authority.maxSupply)) {
+        throw new Error(`Minting ${amount} would exceed the max supply of ${authority.maxSupply ?? MAX_TOKEN_AMOUNT} (${authority.totalMinted} minted so far)`)
       }
 
-      // Submit to overlay using direct endpoint
-      console.log('   Submitting to overlay...')
-      const response = await fetch(`${OVERLAY_URL}/submit-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+      console.log('\n📝 Creating transaction...')
+      const tokenScript = await lockTokenOutput({ tokenId, amount, ownerKey: this.identityKey })
+      const authorityScript = await lockMintAuthority({
+        tokenId,
+        issuerKey: authority.issuerKey,
+        maxSupply: authority.maxSupply,
+        totalMinted
+      })
+
+      console.log('   Requesting transaction from wallet...')
+      const createResult = await this.wallet.createAction({
+        inputBEEF: beef,
+        inputs: [
+          {
+            outpoint: `${authorityTxid}.${outputIndex}`,
+            unlockingScriptLength: 73,
+            inputDescription: 'Token mint authority'
+          }
+        ],
+        outputs: [
+          {
+            lockingScript: tokenScript.toHex(),
+            satoshis: 1,
+            outputDescription: 'Spendable PushDrop token mint',
+            basket: 'workshop tokens',
+            tags: ['workshop', 'mint']
+          },
+          {
+            lockingScript: authorityScript.toHex(),
+            satoshis: 1,
+            outputDescription: 'Token mint authority',
+            basket: 'workshop tokens',
+            tags: ['workshop', 'mint-authority']
+          }
+        ],
+        options: {
+          randomizeOutputs: false
         },
-        body: JSON.stringify({ txid })
+        labels: ['workshop', 'mint'],
+        description: `Mint ${amount} more of token ${tokenId.slice(0, 16)}...`
+      })
+
+      if (!createResult.signableTransaction) {
+        throw new Error('Unexpected createAction result: no signableTransaction for the mint authority input')
+      }
+
+      // The authority is unlocked with the same key derivation as a token output
+      const partialTx = Transaction.fromAtomicBEEF(createResult.signableTransaction.tx)
+      const unlocker = unlockTokenOutput(this.wallet, ORIGINATOR, satoshis, lockingScript)
+      const unlockingScript = await unlocker.sign(partialTx, 0)
+
+      const signResult = await this.wallet.signAction({
+        spends: { 0: { unlockingScript: unlockingScript.toHex() } },
+        reference: createResult.signableTransaction.reference
       })
 
-      if (!response.ok) {
-        const error = await response.json() as { error?: string }
-        throw new Error(error.error || 'Overlay submission failed')
+      const txid = signResult.txid
+      if (!txid) {
+        throw new Error('No TXID returned from wallet')
       }
 
-      const result = await response.json() as { tokensFound: number }
-      console.log(`   ✅ Transaction indexed: ${result.tokensFound} token output(s) stored`)
+      const submitted = await this.submitToOverlay(signResult.tx as number[])
+
+      return {
+        txid,
+        tokenId,
+        amount,
+        totalMinted,
+        ...this.submission(signResult.tx as number[], submitted)
+      }
+    } catch (error: any) {
+      console.error('Error minting token:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch a token's unspent mint authority, with the BEEF needed to spend it
+   */
+  private async fetchMintAuthority(tokenId: string): Promise<{
+    beef: number[]
+    txid: string
+    outputIndex: number
+    lockingScript: LockingScript
+    satoshis: number
+  }> {
+    const response = await fetch(`${OVERLAY_URL}/lookup`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        service: 'ls_tokens',
+        query: { type: 'authority', tokenId }
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Lookup failed: ${response.statusText}`)
+    }
+
+    const answer = await response.json() as {
+      type: string
+      outputs?: Array<{ beef: number[], outputIndex: number }>
+    }
+    const [found] = answer.type === 'output-list' ? answer.outputs ?? [] : []
+    if (!found) {
+      throw new Error(`Token ${tokenId} has no mint authority (it is fixed-supply, or minting was renounced)`)
+    }
+
+    const tx = Transaction.fromBEEF(found.beef)
+    const output = tx.outputs[found.outputIndex]
+    return {
+      beef: found.beef,
+      txid: tx.id('hex'),
+      outputIndex: found.outputIndex,
+      lockingScript: output.lockingScript,
+      satoshis: output.satoshis ?? 1
+    }
+  }
+
+  /**
+   * Submit a transaction to the overlay's tm_tokens topic. The transaction
+   * is already broadcast, so failures are reported rather than thrown.
+   */
+  private async submitToOverlay(beef: number[]): Promise<SubmitResult | undefined> {
+    try {
+      console.log('\n📤 Submitting transaction to overlay server...')
+      const result = await this.submitter.submit(beef)
+      if (result.admitted[TOKEN_TOPIC].length > 0) {
+        console.log(`   ✅ ${describeSubmitResult(result)}`)
+      } else if (result.rejections.length === 0) {
+        console.warn(`   ⚠️  ${describeSubmitResult(result)}: check the overlay logs for why the transaction was rejected`)
+      } else {
+        console.warn(`   ⚠️  ${describeSubmitResult(result)}`)
+      }
+      for (const rejection of result.rejections) {
+        console.warn(`   ❌ ${formatRejection(rejection)}`)
+      }
+      return result
     } catch (error: any) {
       console.warn(`   ⚠️  Could not submit to overlay: ${error.message}`)
-      console.warn(`   You may need to restart the overlay server or check the logs`)
+      console.warn(`   Resubmit the transaction once the overlay server is reachable`)
+      return undefined
     }
   }
 
+  /**
+   * What the overlay made of a broadcast transaction, keeping its BEEF if
+   * the overlay could not be reached so it can be resubmitted
+   */
+  private submission(beef: number[], submitted: SubmitResult | undefined) {
+    return submitted
+      ? { rejections: submitted.rejections, unsubmitted: false }
+      : { rejections: [], unsubmitted: true, beef: Utils.toHex(beef) }
+  }
+
+  /**
+   * Prompt for a token and amount, then mint more through its authority
+   */
+  private async remintInteractive(rl: readline.Interface): Promise<void> {
+    const tokenId = (await rl.question('Token ID: ')).trim()
+    if (!/^[0-9a-fA-F]{64}$/.test(tokenId)) {
+      throw new Error('Token ID must be 64 hex characters')
+    }
+
+    const amountStr = await rl.question('Amount to mint: ')
+    const amount = parseTokenAmount(amountStr.trim())
+    if (amount === undefined || amount <= 0n) {
+      throw new Error('Amount must be a positive whole number (up to 2^64 - 1)')
+    }
+
+    const result = await this.remint(tokenId.toLowerCase(), amount)
+
+    console.log(`
+✅ Minted ${result.amount.toLocaleString()} more tokens
+   Token ID: ${result.tokenId}
+   Transaction: ${result.txid}
+   Total minted: ${result.totalMinted.toLocaleString()}
+`)
+  }
+
   /**
    * Interactive CLI for minting tokens
    */
@@ -262,29 +465,49 @@ class MintApp {
 
       console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n')
 
+      console.log('1. Mint a new token')
+      console.log('2. Mint more of an existing token')
+      const choice = await rl.question('\nSelect an option (default 1): ')
+      if (choice.trim() === '2') {
+        await this.remintInteractive(rl)
+        return
+      }
+
       const name = await rl.question('Token Name: ')
       const symbol = await rl.question('Token Symbol: ')
       const decimalsStr = await rl.question('Decimals (default 0): ')
       const supplyStr = await rl.question('Total Supply: ')
       const description = await rl.question('Description (optional): ')
+      const icon = await rl.question('Icon URL (optional): ')
+      const mintableStr = await rl.question('Allow minting more later? (y/N): ')
+      const mintable = mintableStr.trim().toLowerCase().startsWith('y')
+      const maxSupplyStr = mintable ? await rl.question('Max Supply (optional): ') : ''
 
       const decimals = decimalsStr ? parseInt(decimalsStr) : 0
-      const totalSupply = parseInt(supplyStr)
+      const totalSupply = parseTokenAmount(supplyStr.trim())
 
-      if (!name || !symbol || !totalSupply) {
+      if (!name || !symbol || !supplyStr) {
         throw new Error('Name, symbol, and total supply are required')
       }
 
-      if (isNaN(totalSupply) || totalSupply <= 0) {
-        throw new Error('Total supply must be a positive number')
+      if (totalSupply === undefined || totalSupply <= 0n) {
+        throw new Error('Total supply must be a positive whole number (up to 2^64 - 1)')
+      }
+
+      const maxSupply = maxSupplyStr.trim() ? parseTokenAmount(maxSupplyStr.trim()) : undefined
+      if (maxSupplyStr.trim() && (maxSupply === undefined || maxSupply < totalSupply)) {
+        throw new Error('Max supply must be a whole number no smaller than the total supply')
       }
 
       const metadata: TokenMetadata = {
         name,
         symbol,
         decimals,
-        totalSupply,
-        description: description || undefined
+        totalSupply: totalSupply.toString(),
+        description: description || undefined,
+        icon: icon || undefined,
+        mintable: mintable || undefined,
+        maxSupply: maxSupply?.toString()
       }
 
       const result = await this.mint(metadata)
@@ -300,7 +523,8 @@ Token Details:
   Name: ${metadata.name}
   Symbol: ${metadata.symbol}
   Decimals: ${metadata.decimals}
-  Total Supply: ${metadata.totalSupply.toLocaleString()}
+  Total Supply: ${totalSupply.toLocaleString()}${mintable ? `
+  Mintable: yes (max supply ${maxSupply?.toLocaleString() ?? 'uncapped'})` : ''}
 
 Token ID: ${result.tokenId}
 Transaction: ${result.txid}
@@ -324,12 +548,9 @@ TXID: ${result.txid}
       console.error('\n❌ Error:', error instanceof Error ? error.message : error)
 
       if (error instanceof Error) {
-        if (error.message.includes('BSV Desktop Wallet') || error.message.includes('connect')) {
+        if (error.message.includes('connect')) {
           console.log('\n💡 Troubleshooting:')
-          console.log('   1. Make sure BSV Desktop Wallet is running')
-          console.log('   2. Unlock your wallet if it\'s locked')
-          console.log('   3. Check your wallet has BSV for fees (~$0.01)')
-          console.log('   4. Ensure wallet connection is available')
+          walletChecklist(WALLET_BACKEND, 'MINTER_PRIVATE_KEY').forEach((check, i) => console.log(`   ${i + 1}. ${check}`))
         }
       }
     } finally {
@@ -338,10 +559,13 @@ TXID: ${result.txid}
   }
 }
 
-// Run the app
+// Run the app when executed directly (npm run mint), not when imported by
+// the token CLI
 async function main() {
   const app = new MintApp()
   await app.runInteractive()
 }
 
-main().catch(console.error)
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(console.error)
+}
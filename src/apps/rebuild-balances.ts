@@ -0,0 +1,65 @@
+import 'dotenv/config'
+import { MongoClient } from 'mongodb'
+import TokenStorageManager from '../services/token/TokenStorageManager.js'
+
+const { MONGO_URL = 'mongodb://localhost:27017/tokenworkshop' } = process.env
+
+/**
+ * Rebuild Balances - Recompute the materialized `balances` collection from
+ * the unspent outputs in `tokens` and report any drift. Also registers any
+ * genesis outputs indexed before the token registry existed.
+ *
+ * Usage:
+ *   npm run rebuild-balances            fix drifted balances
+ *   npm run rebuild-balances -- --dry-run   only report them
+ *
+ * Exits with code 1 when drift was found in dry-run mode.
+ */
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  const client = new MongoClient(MONGO_URL)
+  await client.connect()
+
+  try {
+    const storage = new TokenStorageManager(client.db())
+
+    // Tokens minted before the registry existed still need an entry
+    if (!dryRun) {
+      const registered = await storage.registerExistingTokens()
+      if (registered > 0) {
+        console.log(`📇 Registered ${registered} token(s) missing from the token registry`)
+      }
+    }
+
+    console.log(`\n🔄 ${dryRun ? 'Checking' : 'Rebuilding'} materialized balances...\n`)
+    const drift = await storage.rebuildBalances(dryRun)
+
+    if (drift.length === 0) {
+      console.log('✅ Balances match the tokens collection, no drift found')
+      return
+    }
+
+    for (const entry of drift) {
+      console.log(`Token: ${entry.tokenId}`)
+      console.log(`  Owner: ${entry.ownerKey ?? '(none)'}`)
+      console.log(`  Expected: ${entry.expected.amount} in ${entry.expected.utxoCount} UTXO(s)`)
+      console.log(`  Found:    ${entry.actual.amount} in ${entry.actual.utxoCount} UTXO(s)`)
+      console.log()
+    }
+
+    if (dryRun) {
+      console.log(`⚠️  ${drift.length} balance(s) drifted. Run without --dry-run to fix them.`)
+      process.exitCode = 1
+    } else {
+      console.log(`✅ Corrected ${drift.length} drifted balance(s)`)
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -0,0 +1,451 @@
+import 'dotenv/config'
+import { LockingScript } from '@bsv/sdk'
+import { existsSync, readFileSync } from 'fs'
+import { parseArgs } from 'util'
+import { MintApp, TokenMetadata } from './mint.js'
+import { WalletApp } from './wallet.js'
+import {
+  decodeBurnScript,
+  decodeMintAuthorityScript,
+  decodeTokenScript,
+  parseTokenAmount
+} from '../services/token/TokenOutput.js'
+import { CoinSelectionStrategy } from '../services/token/TokenCoinSelector.js'
+import { TokenRejection, formatRejection } from '../services/token/TokenValidation.js'
+
+/**
+ * Exit codes of the token CLI
+ */
+export const EXIT_OK = 0
+export const EXIT_FAILURE = 1  // The command ran but failed (overlay, transaction, ...)
+export const EXIT_USAGE = 2  // Bad command, flags or flag values
+export const EXIT_WALLET = 3  // The wallet could not be reached
+
+const USAGE = `Usage: npm run token -- <command> [flags]
+
+Commands:
+  mint      --name <name> --symbol <symbol> --supply <amount> [--decimals <n>]
+            [--description <text>] [--icon <url>] [--mintable [--max-supply <amount>]]
+            Mint a new token
+  mint      --token <id> --amount <amount>
+            Mint more of a mintable token through its mint authority
+  balance   [--token <id>] [--owner <key>]
+            Balances of this wallet (or --owner), optionally for one token
+  utxos     --token <id> [--owner <key>]
+            Unspent outputs of a token held by this wallet (or --owner)
+  transfer  --token <id> --amount <amount> --to <key>
+            Send tokens to one recipient
+  transfer  --token <id> --batch <list.csv|list.json> [--results <file>]
+            Airdrop to every recipient in a list, resuming from the results file
+  history   --token <id> [--owner <key>] [--page-size <n>] [--cursor <cursor>]
+            One page of a token's transfers, newest first
+  burn      --token <id> --amount <amount> --yes
+            Permanently destroy tokens
+  funds     [--import <beef hex | file>]
+            Address and fee balance of the local wallet (WALLET_BACKEND=local),
+            optionally importing a transaction that funds it
+  inspect   --token <id> | --outpoint <txid>.<vout> | --tx <txid> | --script <hex>
+            Show a token's definition and supply, an indexed output, why the
+            overlay did or did not admit a transaction's outputs, or decode
+            a locking script
+
+Flags:
+  --json                  Print the result as JSON on stdout (progress goes to stderr)
+  --interactive           Run the interactive menus instead (mint prompts for 'mint')
+  --strategy <strategy>   Coin selection for transfer/burn (default COIN_SELECTION)
+  --max-inputs <n>        Maximum token inputs for transfer/burn (default MAX_TOKEN_INPUTS)
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 failure (including outputs the overlay rejected),
+2 usage error, 3 wallet unavailable`
+
+const COIN_SELECTION_STRATEGIES = ['largest-first', 'smallest-first', 'exact-match', 'random']
+
+/**
+ * An error that ends the CLI with a specific exit code
+ */
+class CliError extends Error {
+  constructor(
+    public readonly exitCode: number,
+    message: string,
+    public readonly result?: unknown  // Partial result, still printed with --json
+  ) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+type Flags = Record<string, string | boolean | undefined>
+
+function usageError(message: string): CliError {
+  return new CliError(EXIT_USAGE, `${message}\n\n${USAGE}`)
+}
+
+function requireFlag(flags: Flags, name: string): string {
+  const value = flags[name]
+  if (typeof value !== 'string' || value.length === 0) {
+    throw usageError(`--${name} is required`)
+  }
+  return value
+}
+
+function requireAmount(flags: Flags, name: string): bigint {
+  const amount = parseTokenAmount(requireFlag(flags, name))
+  if (amount === undefined || amount <= 0n) {
+    throw usageError(`--${name} must be a positive whole number (up to 2^64 - 1)`)
+  }
+  return amount
+}
+
+function requireHex(flags: Flags, name: string, bytes: number): string {
+  const value = requireFlag(flags, name)
+  if (!new RegExp(`^[0-9a-fA-F]{${bytes * 2}}$`).test(value)) {
+    throw usageError(`--${name} must be ${bytes} bytes of hex`)
+  }
+  return value.toLowerCase()
+}
+
+function optionalOwner(flags: Flags): string | undefined {
+  return flags.owner === undefined ? undefined : requireHex(flags, 'owner', 33)
+}
+
+function optionalInteger(flags: Flags, name: string): number | undefined {
+  const value = flags[name]
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw usageError(`--${name} must be a whole number`)
+  }
+  return parseInt(value)
+}
+
+/**
+ * Create an app and connect it to its wallet, mapping a wallet that is
+ * misconfigured or unreachable to EXIT_WALLET
+ */
+async function connect<T extends MintApp | WalletApp>(create: () => T): Promise<T> {
+  try {
+    const app = create()
+    await app.initialize()
+    return app
+  } catch (error) {
+    throw new CliError(EXIT_WALLET, error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Fail with the overlay's reasons when it rejected any token output of a
+ * transaction the command made, or when it could not be reached at all.
+ * The transaction is already broadcast, so the result is kept for --json.
+ */
+function requireAdmitted<T extends { txid: string, rejections: TokenRejection[], unsubmitted?: boolean }>(result: T): T {
+  if (result.unsubmitted) {
+    const token = 'tokenId' in result ? ` of token ${result.tokenId}` : ''
+    throw new CliError(
+      EXIT_FAILURE,
+      `${result.txid}${token} was broadcast, but could not be submitted to the overlay: resubmit its BEEF (--json) with POST /submit-token`,
+      result
+    )
+  }
+  if (result.rejections.length > 0) {
+    const reasons = result.rejections.map(r => `  ${formatRejection(r)}`).join('\n')
+    throw new CliError(EXIT_FAILURE, `The overlay did not admit all token outputs of ${result.txid}:\n${reasons}`, result)
+  }
+  return result
+}
+
+/**
+ * Decode a locking script as whichever token output it is
+ */
+function inspectScript(hex: string) {
+  const script = LockingScript.fromHex(hex)
+  const burn = decodeBurnScript(script)
+  if (burn) {
+    return { kind: 'burn', ...burn }
+  }
+  const authority = decodeMintAuthorityScript(script)
+  if (authority) {
+    return { kind: 'mint-authority', ...authority }
+  }
+  return { kind: 'token', ...decodeTokenScript(script) }
+}
+
+/**
+ * Run one subcommand, returning its result (printed by main)
+ */
+async function run(command: string, flags: Flags): Promise<unknown> {
+  // Overlay queries need no wallet: commands acting as this wallet connect
+  // their own app
+  const overlay = new WalletApp()
+  const spendOptions = (): [CoinSelectionStrategy | undefined, number | undefined] => {
+    const strategy = flags.strategy as string | undefined
+    if (strategy !== undefined && !COIN_SELECTION_STRATEGIES.includes(strategy)) {
+      throw usageError(`--strategy must be one of ${COIN_SELECTION_STRATEGIES.join(', ')}`)
+    }
+    return [strategy as CoinSelectionStrategy | undefined, optionalInteger(flags, 'max-inputs')]
+  }
+
+  switch (command) {
+    case 'mint': {
+      if (flags.token !== undefined) {
+        const tokenId = requireHex(flags, 'token', 32)
+        const amount = requireAmount(flags, 'amount')
+        const mint = await connect(() => new MintApp())
+        return requireAdmitted(await mint.remint(tokenId, amount))
+      }
+
+      const supply = requireAmount(flags, 'supply')
+      const maxSupply = flags['max-supply'] === undefined ? undefined : requireAmount(flags, 'max-supply')
+      if (maxSupply !== undefined && (!flags.mintable || maxSupply < supply)) {
+        throw usageError('--max-supply needs --mintable and must be at least --supply')
+      }
+      const metadata: TokenMetadata = {
+        name: requireFlag(flags, 'name'),
+        symbol: requireFlag(flags, 'symbol'),
+        decimals: optionalInteger(flags, 'decimals') ?? 0,
+        totalSupply: supply.toString(),
+        description: flags.description as string | undefined,
+        icon: flags.icon as string | undefined,
+        mintable: flags.mintable ? true : undefined,
+        maxSupply: maxSupply?.toString()
+      }
+      const mint = await connect(() => new MintApp())
+      return requireAdmitted(await mint.mint(metadata))
+    }
+
+    case 'balance': {
+      const tokenId = flags.token === undefined ? undefined : requireHex(flags, 'token', 32)
+      const owner = optionalOwner(flags)
+      const wallet = owner ? overlay : await connect(() => new WalletApp())
+      const balances = await wallet.getBalances(owner)
+      return tokenId ? balances.filter(b => b.tokenId === tokenId) : balances
+    }
+
+    case 'utxos': {
+      const tokenId = requireHex(flags, 'token', 32)
+      const owner = optionalOwner(flags)
+      if (owner) {
+        return await overlay.getTokenUTXOs(tokenId, owner)
+      }
+      const wallet = await connect(() => new WalletApp())
+      return await wallet.getOwnTokenUTXOs(tokenId)
+    }
+
+    case 'transfer': {
+      const tokenId = requireHex(flags, 'token', 32)
+      const [strategy, maxInputs] = spendOptions()
+      if (flags.batch !== undefined) {
+        const listPath = requireFlag(flags, 'batch')
+        const wallet = await connect(() => new WalletApp())
+        const airdrop = await wallet.batchTransfer(tokenId, listPath, flags.results as string | undefined, strategy, maxInputs)
+        if (airdrop.failed > 0 || airdrop.unsubmitted > 0) {
+          throw new CliError(
+            EXIT_FAILURE,
+            `${airdrop.failed} recipient(s) failed, ${airdrop.unsubmitted} awaiting resubmission to the overlay, see ${airdrop.resultsPath}`,
+            airdrop
+          )
+        }
+        return airdrop
+      }
+
+      const amount = requireAmount(flags, 'amount')
+      const recipient = requireHex(flags, 'to', 33)
+      const wallet = await connect(() => new WalletApp())
+      return requireAdmitted(await wallet.transfer(tokenId, amount, recipient, strategy, maxInputs))
+    }
+
+    case 'history': {
+      const tokenId = requireHex(flags, 'token', 32)
+      return await overlay.getTransfers(
+        tokenId,
+        optionalOwner(flags),
+        flags.cursor as string | undefined,
+        optionalInteger(flags, 'page-size')
+      )
+    }
+
+    case 'burn': {
+      const tokenId = requireHex(flags, 'token', 32)
+      const amount = requireAmount(flags, 'amount')
+      if (!flags.yes) {
+        throw usageError('burning is permanent: pass --yes to confirm')
+      }
+      const [strategy, maxInputs] = spendOptions()
+      const wallet = await connect(() => new WalletApp())
+      return requireAdmitted(await wallet.burn(tokenId, amount, strategy, maxInputs))
+    }
+
+    case 'inspect': {
+      if (flags.script !== undefined) {
+        try {
+          return inspectScript(requireFlag(flags, 'script'))
+        } catch (error) {
+          throw new CliError(EXIT_FAILURE, `Not a token script: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+      if (flags.outpoint !== undefined) {
+        const match = /^([0-9a-fA-F]{64})[.:](\d+)$/.exec(requireFlag(flags, 'outpoint'))
+        if (!match) {
+          throw usageError('--outpoint must be <txid>.<vout>')
+        }
+        return await overlay.getTokenOutput(match[1].toLowerCase(), parseInt(match[2]))
+      }
+      if (flags.tx !== undefined) {
+        return await overlay.getValidation(requireHex(flags, 'tx', 32))
+      }
+      return await overlay.getTokenInfo(requireHex(flags, 'token', 32))
+    }
+
+    case 'funds': {
+      const source = flags.import as string | undefined
+      const beefHex = source !== undefined && existsSync(source) ? readFileSync(source, 'utf8').trim() : source
+      if (beefHex !== undefined && !/^([0-9a-fA-F]{2})+$/.test(beefHex)) {
+        throw usageError('--import must be hex BEEF or a file containing it')
+      }
+      const wallet = await connect(() => new WalletApp())
+      return beefHex === undefined ? wallet.getFunding() : wallet.importFunding(beefHex)
+    }
+
+    default:
+      throw usageError(command ? `Unknown command '${command}'` : 'No command given')
+  }
+}
+
+/**
+ * Human-readable form of a command result
+ */
+function printResult(command: string, result: any): void {
+  if (command === 'balance') {
+    if (result.length === 0) {
+      console.log('No tokens found')
+    }
+    for (const b of result) {
+      console.log(`${b.symbol ?? 'N/A'}  ${b.tokenId}  ${b.totalAmount} in ${b.utxoCount} UTXO(s)`)
+    }
+    return
+  }
+  if (command === 'utxos') {
+    for (const u of result) {
+      console.log(`${u.txid}.${u.outputIndex}  ${u.amount}`)
+    }
+    console.log(`${result.length} UTXO(s)`)
+    return
+  }
+  if (command === 'funds') {
+    for (const u of result.added ?? []) {
+      console.log(`Imported ${u.txid}.${u.vout}  ${u.satoshis} sats`)
+    }
+    console.log(`Address ${result.address}: ${result.satoshis} sats in ${result.utxos.length} UTXO(s)`)
+    return
+  }
+  if (command === 'history') {
+    for (const t of result.items) {
+      console.log(`${t.timestamp}  ${t.kind.padEnd(8)}  ${t.txid}  in ${t.amountIn} out ${t.amountOut}${BigInt(t.burned) > 0n ? ` burned ${t.burned}` : ''}`)
+    }
+    if (result.nextCursor) {
+      console.log(`More: --cursor ${result.nextCursor}`)
+    }
+    return
+  }
+  console.log(toJson(result))
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2)
+}
+
+/**
+ * Token CLI - Scriptable access to minting, balances, transfers, burns and
+ * token inspection, for CI and ops runbooks.
+ *
+ * Usage:
+ *   npm run token -- <command> [flags]
+ *   npm run token -- --interactive
+ *
+ * Run with --help for the list of commands and flags.
+ */
+async function main(): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        interactive: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        yes: { type: 'boolean' },
+        mintable: { type: 'boolean' },
+        token: { type: 'string' },
+        amount: { type: 'string' },
+        to: { type: 'string' },
+        owner: { type: 'string' },
+        name: { type: 'string' },
+        symbol: { type: 'string' },
+        decimals: { type: 'string' },
+        supply: { type: 'string' },
+        'max-supply': { type: 'string' },
+        description: { type: 'string' },
+        icon: { type: 'string' },
+        batch: { type: 'string' },
+        results: { type: 'string' },
+        cursor: { type: 'string' },
+        'page-size': { type: 'string' },
+        strategy: { type: 'string' },
+        'max-inputs': { type: 'string' },
+        outpoint: { type: 'string' },
+        tx: { type: 'string' },
+        script: { type: 'string' },
+        import: { type: 'string' }
+      }
+    })
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  const { values: flags, positionals } = parsed
+  const [command = ''] = positionals
+
+  if (flags.help) {
+    console.log(USAGE)
+    return EXIT_OK
+  }
+
+  if (flags.interactive) {
+    await (command === 'mint' ? new MintApp() : new WalletApp()).runInteractive()
+    return EXIT_OK
+  }
+
+  // Keep stdout for the JSON result: the apps' progress output goes to stderr
+  const print = console.log
+  if (flags.json) {
+    console.log = console.error
+  }
+
+  try {
+    const result = await run(command, flags)
+    if (flags.json) {
+      print(toJson(result))
+    } else {
+      printResult(command, result)
+    }
+    return EXIT_OK
+  } catch (error) {
+    const exitCode = error instanceof CliError ? error.exitCode : EXIT_FAILURE
+    const message = error instanceof Error ? error.message : String(error)
+    if (flags.json) {
+      print(toJson({ error: message, exitCode, result: error instanceof CliError ? error.result : undefined }))
+    } else {
+      console.error(`\n❌ ${message}`)
+    }
+    return exitCode
+  }
+}
+
+main().then(code => {
+  process.exitCode = code
+}).catch(error => {
+  console.error(error)
+  process.exitCode = EXIT_FAILURE
+})
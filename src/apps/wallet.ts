@@ -1,36 +1,96 @@
 import 'dotenv/config'
 import {
-  WalletClient,
+  CreateActionOutput,
   Script,
-  Utils,
-  PushDrop
+  Beef,
+  LockingScript,
+  Transaction,
+  Utils
 } from '@bsv/sdk'
 import * as readline from 'readline/promises'
+import { existsSync, readFileSync } from 'fs'
 import { stdin as input, stdout as output } from 'process'
+import { pathToFileURL } from 'url'
+import {
+  IDENTITY_KEY_PATTERN,
+  createBurnScript,
+  decodeTokenScript,
+  lockTokenOutput,
+  parseTokenAmount,
+  unlockTokenOutput
+} from '../services/token/TokenOutput.js'
+import { TokenWallet, createTokenWallet, walletChecklist, walletName } from '../services/wallet/TokenWallet.js'
+import {
+  SubmitResult,
+  TOKEN_TOPIC,
+  TokenSubmitter,
+  describeSubmitResult
+} from '../services/token/TokenSubmitter.js'
+import LocalWallet from '../services/wallet/LocalWallet.js'
+import {
+  CoinSelectionStrategy,
+  excludeOutpoints,
+  outpointOf,
+  selectTokenUTXOs
+} from '../services/token/TokenCoinSelector.js'
+import {
+  AirdropRecipient,
+  AirdropResult,
+  AirdropResults,
+  UnsubmittedAirdropTx,
+  airdropFormatOf,
+  packBatches,
+  parseAirdropList,
+  pendingRecipients,
+  recordResults
+} from '../services/token/TokenAirdrop.js'
+import { TokenRejection, TokenValidationJson, formatRejection } from '../services/token/TokenValidation.js'
+import { writeFileAtomic } from '../services/files/AtomicFile.js'
 
 const {
   IDENTITY_KEY,
   OVERLAY_URL = 'http://localhost:8080',
-  ORIGINATOR = 'tokenisation-workshop.local'
+  ORIGINATOR = 'tokenisation-workshop.local',
+  WALLET_BACKEND,
+  WALLET_PRIVATE_KEY,
+  LOCAL_WALLET_FILE,
+  ARC_URL,
+  ARC_API_KEY,
+  FEE_RATE,
+  SUBMIT_MAX_ATTEMPTS = '5',
+  COIN_SELECTION = 'largest-first',
+  MAX_TOKEN_INPUTS = '10',
+  AIRDROP_MAX_OUTPUTS = '250',
+  AIRDROP_MAX_TX_BYTES = '100000'
 } = process.env
 
-interface TokenBalance {
+/**
+ * Rough serialized size of a signed PushDrop token input (outpoint,
+ * sequence and a 73-byte signature push), used when packing airdrop batches
+ */
+const TOKEN_INPUT_SIZE = 41 + 74
+
+/**
+ * Serialized size of a transaction output with the given locking script
+ */
+function outputSize(lockingScriptHex: string): number {
+  const scriptLength = lockingScriptHex.length / 2
+  return 8 + (scriptLength < 0xfd ? 1 : 3) + scriptLength
+}
+
+export interface TokenBalance {
   tokenId: string
   name?: string
   symbol?: string
   decimals?: number
-  totalAmount: number
-  utxos?: Array<{
-    txid: string
-    outputIndex: number
-    amount: number
-  }>
+  totalAmount: string  // Amounts arrive from the overlay as decimal strings
+  utxoCount: number
 }
 
-interface TokenUTXO {
+export interface TokenUTXO {
   txid: string
   outputIndex: number
-  amount: number
+  amount: string
   lockingScript: string
   satoshis: number
 }
@@ -48,19 +108,41 @@ interface TokenUTXO {
  *
  * Features:
  * - View token balances from overlay server
- * - Transfer tokens to another address
+ * - Transfer tokens to another identity key
+ * - Burn tokens with an on-chain burn record
+ * - Airdrop tokens to many recipients from a CSV or JSON list
  * - Sign transactions with BSV Desktop Wallet
  */
-class WalletApp {
-  private wallet: WalletClient
+export class WalletApp {
+  private tokenWallet?: TokenWallet
+  private submitter: TokenSubmitter
   private identityKey: string | null = null
   private overlayUrl: string
 
   constructor() {
-    // Initialize WalletClient with originator (required in Node.js)
-    // The originator identifies your application to the wallet
-    this.wallet = new WalletClient('auto', ORIGINATOR)
     this.overlayUrl = OVERLAY_URL || 'http://localhost:8080'
+    this.submitter = new TokenSubmitter({
+      overlayUrl: this.overlayUrl,
+      maxAttempts: parseInt(SUBMIT_MAX_ATTEMPTS)
+    })
+  }
+
+  /**
+   * BSV Desktop Wallet by default (the originator identifies this app to
+   * it), or a local private-key wallet with WALLET_BACKEND=local. Created on
+   * first use, so overlay queries work without any wallet configured.
+   */
+  private get wallet(): TokenWallet {
+    this.tokenWallet ??= createTokenWallet({
+      originator: ORIGINATOR,
+      backend: WALLET_BACKEND,
+      privateKey: WALLET_PRIVATE_KEY,
+      utxoFile: LOCAL_WALLET_FILE,
+      arcUrl: ARC_URL,
+      arcApiKey: ARC_API_KEY,
+      feeRate: FEE_RATE ? Number(FEE_RATE) : undefined
+    })
+    return this.tokenWallet
   }
 
   /**
@@ -68,7 +150,7 @@ class WalletApp {
    */
   async initialize(): Promise<void> {
     try {
-      console.log('🔌 Connecting to BSV Desktop Wallet...')
+      console.log(`🔌 Connecting to ${walletName(WALLET_BACKEND)}...`)
 
       // Get identity key from wallet
       const keyResult = await this.wallet.getPublicKey({ identityKey: true })
@@ -83,53 +165,213 @@ class WalletApp {
       }
     } catch (error: any) {
       throw new Error(
-        `Failed to connect to BSV Desktop Wallet: ${error.message}\n\n` +
+        `Failed to connect to ${walletName(WALLET_BACKEND)}: ${error.message}\n\n` +
         `Make sure:\n` +
-        `  1. BSV Desktop Wallet is running\n` +
-        `  2. Your wallet is unlocked\n` +
-        `  3. Wallet connection is available`
+        walletChecklist(WALLET_BACKEND, 'WALLET_PRIVATE_KEY').map((check, i) => `  ${i + 1}. ${check}`).join('\n')
       )
     }
   }
 
   /**
-   * Query overlay for token balances
+   * Fetch every page of a paged overlay REST route, following nextCursor
    */
-  async getBalances(): Promise<TokenBalance[]> {
-    try {
-      // Filter by this wallet's identity key
-      const url = `${this.overlayUrl}/token-balances?ownerKey=${this.identityKey}`
-      const response = await fetch(url)
+  private async fetchAllPages<T>(path: string, params: Record<string, string | undefined> = {}): Promise<T[]> {
+    const items: T[] = []
+    let cursor: string | undefined
+    do {
+      const query = new URLSearchParams()
+      for (const [key, value] of Object.entries({ ...params, cursor })) {
+        if (value !== undefined) {
+          query.set(key, value)
+        }
+      }
+      const response = await fetch(`${this.overlayUrl}${path}?${query}`)
 
       if (!response.ok) {
         throw new Error(`Lookup failed: ${response.statusText}`)
       }
 
-      const result = await response.json()
-      return Array.isArray(result) ? result : []
-    } catch (error) {
-      console.error('Error fetching balances:', error)
-      return []
+      const page = await response.json() as { items?: T[], nextCursor?: string }
+      items.push(...(page.items ?? []))
+      cursor = page.nextCursor
+    } while (cursor)
+    return items
+  }
+
+  /**
+   * GET a single overlay REST resource, failing with the overlay's error
+   * message on a non-2xx response
+   */
+  private async fetchJson<T>(path: string, params: Record<string, string | undefined> = {}): Promise<T> {
+    const query = new URLSearchParams()
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        query.set(key, value)
+      }
+    }
+    const response = await fetch(`${this.overlayUrl}${path}?${query}`)
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({})) as { error?: string }
+      throw new Error(body.error || `Lookup failed: ${response.statusText}`)
     }
+    return await response.json() as T
+  }
+
+  /**
+   * Query overlay for token balances
+   * @param ownerKey Owner to report on, this wallet's identity key by default
+   */
+  async getBalances(ownerKey = this.identityKey!): Promise<TokenBalance[]> {
+    return await this.fetchAllPages<TokenBalance>('/token-balances', { ownerKey })
   }
 
   /**
    * Query overlay for UTXOs of a specific token
+   * @param ownerKey Optional filter by owner's identity key
    */
-  async getTokenUTXOs(tokenId: string): Promise<TokenUTXO[]> {
-    try {
-      const response = await fetch(`${this.overlayUrl}/token-utxos/${tokenId}`)
+  async getTokenUTXOs(tokenId: string, ownerKey?: string): Promise<TokenUTXO[]> {
+    return await this.fetchAllPages<TokenUTXO>(`/token-utxos/${tokenId}`, { ownerKey })
+  }
+
+  /**
+   * One page of a token's transfers, newest first
+   * @param ownerKey Optional filter by owner's identity key
+   */
+  async getTransfers(tokenId: string, ownerKey?: string, cursor?: string, pageSize?: number) {
+    return await this.fetchJson<{ items: any[], nextCursor?: string }>(`/token-transfers/${tokenId}`, {
+      ownerKey,
+      cursor,
+      pageSize: pageSize?.toString()
+    })
+  }
+
+  /**
+   * A token's registry entry together with its supply figures
+   */
+  async getTokenInfo(tokenId: string) {
+    const [token, supply] = await Promise.all([
+      this.fetchJson<Record<string, any>>(`/tokens/${tokenId}`),
+      this.fetchJson<Record<string, any>>(`/token-supply/${tokenId}`)
+    ])
+    return { token, supply }
+  }
+
+  /**
+   * A single token output as indexed by the overlay
+   */
+  async getTokenOutput(txid: string, outputIndex: number) {
+    return await this.fetchJson<Record<string, any>>(`/token-outputs/${txid}/${outputIndex}`)
+  }
+
+  /**
+   * Why the overlay did or did not admit the outputs of a transaction
+   */
+  async getValidation(txid: string) {
+    return await this.fetchJson<TokenValidationJson>(`/token-validations/${txid}`)
+  }
+
+  /**
+   * The local wallet's address and the BSV it can spend on fees.
+   * Only available with WALLET_BACKEND=local.
+   */
+  getFunding() {
+    const wallet = this.localWallet()
+    const utxos = wallet.listFunding().map(({ txid, vout, satoshis }) => ({ txid, vout, satoshis }))
+    return {
+      address: wallet.address,
+      satoshis: utxos.reduce((sum, u) => sum + u.satoshis, 0),
+      utxos
+    }
+  }
+
+  /**
+   * Add the outputs of a funding transaction (BEEF, hex) paying the local
+   * wallet's address. Only available with WALLET_BACKEND=local.
+   */
+  importFunding(beefHex: string) {
+    const added = this.localWallet().importFunding(Utils.toArray(beefHex, 'hex'))
+    return { added: added.map(({ txid, vout, satoshis }) => ({ txid, vout, satoshis })), ...this.getFunding() }
+  }
+
+  private localWallet(): LocalWallet {
+    if (!(this.wallet instanceof LocalWallet)) {
+      throw new Error('Funding is managed by BSV Desktop Wallet; set WALLET_BACKEND=local to use a local wallet')
+    }
+    return this.wallet
+  }
+
+  /**
+   * Query overlay for this wallet's own UTXOs of a specific token.
+   * The owner is double-checked against each UTXO's locking script.
+   */
+  async getOwnTokenUTXOs(tokenId: string): Promise<TokenUTXO[]> {
+    const utxos = await this.getTokenUTXOs(tokenId, this.identityKey!)
+    return utxos.filter(utxo => {
+      try {
+        return decodeTokenScript(LockingScript.fromHex(utxo.lockingScript)).ownerKey === this.identityKey
+      } catch {
+        return false
+      }
+    })
+  }
+
+  /**
+   * Fetch the BEEF for a set of this wallet's token UTXOs through the overlay's
+   * standard /lookup endpoint (scoped to our identity key), merged into a single
+   * BEEF for use as createAction inputBEEF
+   */
+  async fetchTokenBEEF(tokenId: string, utxos: TokenUTXO[]): Promise<number[]> {
+    const wanted = new Set(utxos.map(utxo => `${utxo.txid}.${utxo.outputIndex}`))
+    const found = new Map<string, number[]>()
+
+    // Page through the lookup until every wanted outpoint has been seen; the
+    // next page's cursor arrives as the context of the last output
+    let cursor: string | undefined
+    do {
+      const response = await fetch(`${this.overlayUrl}/lookup`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          service: 'ls_tokens',
+          query: { type: 'utxos', tokenId, ownerKey: this.identityKey, cursor }
+        })
+      })
 
       if (!response.ok) {
         throw new Error(`Lookup failed: ${response.statusText}`)
       }
 
-      const result = await response.json()
-      return Array.isArray(result) ? result : []
-    } catch (error) {
-      console.error('Error fetching UTXOs:', error)
-      return []
+      const answer = await response.json() as {
+        type: string
+        outputs?: Array<{ beef: number[], outputIndex: number, context?: number[] }>
+      }
+      if (answer.type !== 'output-list' || !answer.outputs) {
+        throw new Error(`Unexpected lookup answer type: ${answer.type}`)
+      }
+
+      // Index the returned outputs by outpoint
+      for (const output of answer.outputs) {
+        const tx = Transaction.fromBEEF(output.beef)
+        found.set(`${tx.id('hex')}.${output.outputIndex}`, output.beef)
+      }
+
+      const context = answer.outputs[answer.outputs.length - 1]?.context
+      cursor = context ? Utils.toUTF8(context) : undefined
+    } while (cursor && [...wanted].some(outpoint => !found.has(outpoint)))
+
+    const beef = new Beef()
+    for (const utxo of utxos) {
+      const outpoint = `${utxo.txid}.${utxo.outputIndex}`
+      const utxoBEEF = found.get(outpoint)
+      if (!utxoBEEF) {
+        throw new Error(`Overlay returned no BEEF for token UTXO ${outpoint}`)
+      }
+      beef.mergeBeef(utxoBEEF)
     }
+
+    return beef.toBinary()
   }
 
   /**
@@ -138,7 +380,13 @@ class WalletApp {
   async showBalances() {
     console.log('\n💰 Fetching token balances...\n')
 
-    const balances = await this.getBalances()
+    let balances: TokenBalance[]
+    try {
+      balances = await this.getBalances()
+    } catch (error) {
+      console.error('Error fetching balances:', error)
+      return
+    }
 
     if (balances.length === 0) {
       console.log('No tokens found. Mint some tokens first!')
@@ -150,260 +398,490 @@ class WalletApp {
     console.log('╚═══════════════════════════════════════════════════╝\n')
 
     for (const balance of balances) {
-      const displayAmount = balance.decimals
-        ? balance.totalAmount / Math.pow(10, balance.decimals)
-        : balance.totalAmount
+      const displayAmount = this.formatAmount(BigInt(balance.totalAmount), balance.decimals || 0)
 
       console.log(`Token: ${balance.name || 'Unknown'} (${balance.symbol || 'N/A'})`)
       console.log(`  ID: ${balance.tokenId}`)
-      console.log(`  Balance: ${displayAmount.toLocaleString()}`)
-      console.log(`  UTXOs: ${balance.utxos?.length || 0}`)
+      console.log(`  Balance: ${displayAmount}`)
+      console.log(`  UTXOs: ${balance.utxoCount}`)
       console.log(`  Decimals: ${balance.decimals || 0}`)
       console.log()
     }
   }
 
   /**
-   * Create spendable PushDrop token transfer script
-   * Format: <lockingKey> OP_DROP <protocol> <tokenId> <amount> <ownerKey> <metadata> OP_DROP
+   * Format a raw token amount with its decimals, without going through
+   * floating point (e.g. 123456789n with 5 decimals -> '1,234.56789')
+   */
+  formatAmount(amount: bigint, decimals: number): string {
+    if (decimals === 0) {
+      return amount.toLocaleString()
+    }
+    const scale = 10n ** BigInt(decimals)
+    const fraction = (amount % scale).toString().padStart(decimals, '0')
+    return `${(amount / scale).toLocaleString()}.${fraction}`
+  }
+
+  /**
+   * Create spendable PushDrop token transfer script, spendable by the recipient's identity key
+   * Format: <lockingKey> OP_CHECKSIG <protocol> <version> <tokenId> <amount> <ownerKey> <metadata> OP_2DROP...
    */
   async createTransferScript(
     tokenId: string,
-    amount: number,
+    amount: bigint,
     recipientKey: string,
     metadata?: any
   ): Promise<Script> {
-    // Convert amount to 8-byte little-endian buffer
-    const amountBuffer = new Array(8).fill(0)
-    let remaining = amount
-    for (let i = 0; i < 8; i++) {
-      amountBuffer[i] = remaining % 256
-      remaining = Math.floor(remaining / 256)
-    }
-
-    // Get locking key from wallet
-    const lockingKeyResult = await this.wallet.getPublicKey({
-      protocolID: [0, 'tokens'],
-      keyID: `${tokenId.slice(0, 16)}-${Date.now()}`
+    return await lockTokenOutput({
+      tokenId,
+      amount,
+      ownerKey: recipientKey,
+      metadata
     })
-    const lockingPublicKey = lockingKeyResult.publicKey
-
-    // Build PushDrop script manually with OP_DROP
-    const script = new Script()
-
-    // Push locking key (33 bytes)
-    script.writeBin(Utils.toArray(lockingPublicKey, 'hex'))
-
-    // OP_DROP (0x75)
-    script.writeOpCode(117)
-
-    // Push protocol
-    script.writeBin(Utils.toArray('TOKEN', 'utf8'))
-
-    // Push tokenId
-    script.writeBin(Utils.toArray(tokenId, 'hex'))
-
-    // Push amount
-    script.writeBin(amountBuffer)
-
-    // Push recipient key
-    script.writeBin(Utils.toArray(recipientKey, 'hex'))
-
-    // Push metadata if provided
-    if (metadata) {
-      script.writeBin(Utils.toArray(JSON.stringify(metadata), 'utf8'))
-    }
-
-    // OP_DROP (0x75)
-    script.writeOpCode(117)
-
-    return script
   }
 
   /**
-   * Submit transaction to overlay server for indexing
+   * Submit a transaction to the overlay's tm_tokens topic for indexing.
+   * The transaction is already broadcast, so failures are reported rather
+   * than thrown.
    */
-  async submitToOverlay(txid: string): Promise<void> {
+  async submitToOverlay(beef: number[]): Promise<SubmitResult | undefined> {
     try {
       console.log('\n📤 Submitting transaction to overlay server...')
-      console.log('   Waiting for transaction to be confirmed...')
-
-      // Retry up to 6 times (30 seconds total)
-      let txFound = false
-      for (let attempt = 1; attempt <= 6; attempt++) {
-        await new Promise(resolve => setTimeout(resolve, 5000))
-
-        console.log(`   Attempt ${attempt}/6: Checking blockchain...`)
-        const wocResponse = await fetch(`https://api.whatsonchain.com/v1/bsv/main/tx/${txid}/hex`)
-
-        if (wocResponse.ok) {
-          txFound = true
-          console.log('   ✓ Transaction confirmed on blockchain')
-          break
-        } else if (attempt < 6) {
-          console.log(`   Transaction not yet available, waiting...`)
-        }
+      const result = await this.submitter.submit(beef)
+      if (result.admitted[TOKEN_TOPIC].length > 0) {
+        console.log(`   ✅ ${describeSubmitResult(result)}`)
+      } else if (result.rejections.length === 0) {
+        console.warn(`   ⚠️  ${describeSubmitResult(result)}: check the overlay logs for why the transaction was rejected`)
+      } else {
+        console.warn(`   ⚠️  ${describeSubmitResult(result)}`)
       }
-
-      if (!txFound) {
-        throw new Error('Transaction not found on WhatsOnChain after 30 seconds')
+      for (const rejection of result.rejections) {
+        console.warn(`   ❌ ${formatRejection(rejection)}`)
       }
-
-      // Submit to overlay using direct endpoint
-      console.log('   Submitting to overlay...')
-      const response = await fetch(`${this.overlayUrl}/submit-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ txid })
-      })
-
-      if (!response.ok) {
-        const error: any = await response.json()
-        throw new Error(error.error || 'Overlay submission failed')
-      }
-
-      const result: any = await response.json()
-      console.log(`   ✅ Transaction indexed: ${result.tokensFound} token output(s) stored`)
+      return result
     } catch (error: any) {
       console.warn(`   ⚠️  Could not submit to overlay: ${error.message}`)
-      console.warn(`   You may need to restart the overlay server or check the logs`)
+      console.warn(`   Resubmit the transaction once the overlay server is reachable`)
+      return undefined
     }
   }
 
   /**
-   * Transfer tokens to another address using BSV Desktop Wallet (spendable PushDrop)
+   * Pick which of this wallet's UTXOs of a token to spend to cover an amount,
+   * leaving out outpoints already spent by a transaction the overlay may not
+   * know about
    */
-  async transfer(tokenId: string, amount: number, recipientAddress: string) {
-    console.log(`\n📤 Transferring tokens...`)
-    console.log(`  Token ID: ${tokenId}`)
-    console.log(`  Amount: ${amount}`)
-    console.log(`  To: ${recipientAddress}`)
-
-    // Get UTXOs for this token
-    const utxos = await this.getTokenUTXOs(tokenId)
-
-    if (utxos.length === 0) {
+  private async selectOwnUTXOs(
+    tokenId: string,
+    amount: bigint,
+    strategy: CoinSelectionStrategy,
+    maxInputs: number,
+    spent: Set<string> = new Set()
+  ) {
+    // Get this wallet's UTXOs for this token
+    const available = excludeOutpoints(await this.getOwnTokenUTXOs(tokenId), spent)
+
+    if (available.length === 0) {
       throw new Error('No UTXOs found for this token')
     }
 
-    // Calculate total available
-    const totalAvailable = utxos.reduce((sum, utxo) => sum + utxo.amount, 0)
+    // Choose which UTXOs to spend
+    const selection = selectTokenUTXOs(available, amount, strategy, maxInputs)
 
-    if (totalAvailable < amount) {
-      throw new Error(`Insufficient balance. Available: ${totalAvailable}, Requested: ${amount}`)
+    console.log(`\n🪙  Coin selection (${strategy}, max ${maxInputs} inputs):`)
+    for (const utxo of selection.selected) {
+      console.log(`   ${utxo.txid}.${utxo.outputIndex}: ${utxo.amount}`)
     }
+    console.log(`   Selected ${selection.selected.length} of ${available.length} UTXO(s), change: ${selection.change}`)
 
-    // Calculate change
-    const change = totalAvailable - amount
-
-    // Create token outputs using PushDrop
-    console.log('   Creating PushDrop token outputs...')
-    const outputs = []
+    return selection
+  }
 
-    // Recipient's token output
-    const recipientScript = await this.createTransferScript(tokenId, amount, recipientAddress)
-    outputs.push({
-      lockingScript: recipientScript.toHex(),
+  /**
+   * Token change output back to this wallet, if any change is left
+   */
+  private async createChangeOutputs(tokenId: string, change: bigint) {
+    if (change <= 0n) {
+      return []
+    }
+    const changeScript = await this.createTransferScript(tokenId, change, this.identityKey!)
+    return [{
+      lockingScript: changeScript.toHex(),
       satoshis: 1000, // Minimum satoshis for spendable output
-      outputDescription: 'PushDrop token transfer',
+      outputDescription: 'PushDrop token change',
       basket: 'tokens'
-    })
-
-    // Change output if needed (back to sender)
-    if (change > 0) {
-      const changeScript = await this.createTransferScript(tokenId, change, this.identityKey!)
-      outputs.push({
-        lockingScript: changeScript.toHex(),
-        satoshis: 1000, // Minimum satoshis for spendable output
-        outputDescription: 'PushDrop token change',
-        basket: 'tokens'
-      })
-    }
-
-    console.log('\n📝 Creating transaction...')
-    console.log(`   Inputs: ${totalAvailable} tokens from ${utxos.length} UTXO(s)`)
-    console.log(`   To recipient: ${amount}`)
-    console.log(`   Change: ${change}`)
+    }]
+  }
 
-    // For now, we'll create the transaction without explicitly providing the token UTXOs as inputs
-    // The wallet will handle funding the transaction with BSV UTXOs for fees
-    // Note: This is a simplified approach - in production you'd want to properly spend the token UTXOs
-    console.log('   ⚠️  Note: Token UTXO spending not yet implemented - creating new tokens')
+  /**
+   * Spend token UTXOs into the given outputs: build the action with the
+   * wallet, sign the token inputs, broadcast and submit to the overlay.
+   * Returns the txid and the transaction's atomic BEEF, with the overlay's
+   * reasons for any token outputs it did not admit and whether the overlay
+   * could be reached at all.
+   */
+  private async spendTokenUTXOs(
+    tokenId: string,
+    utxos: TokenUTXO[],
+    outputs: CreateActionOutput[],
+    description: string
+  ): Promise<{ txid: string, beef: number[], rejections: TokenRejection[], submitted: boolean }> {
+    // Fetch the BEEF of the token UTXOs being spent
+    console.log('   Fetching token UTXO transactions from overlay...')
+    const inputBEEF = await this.fetchTokenBEEF(tokenId, utxos)
+
+    // The token UTXOs are spent as the first inputs; the wallet adds its own
+    // inputs after them to fund the transaction fee
     console.log('   Requesting transaction from wallet...')
     const createResult = await this.wallet.createAction({
+      inputBEEF,
+      inputs: utxos.map(utxo => ({
+        outpoint: `${utxo.txid}.${utxo.outputIndex}`,
+        unlockingScriptLength: 73,
+        inputDescription: 'PushDrop token UTXO'
+      })),
       outputs,
       options: {
         randomizeOutputs: false
       },
-      description: `Transfer ${amount} tokens`
+      description
     })
 
+    if (!createResult.signableTransaction) {
+      throw new Error('Unexpected createAction result: no signableTransaction for token inputs')
+    }
+
     console.log('   ✓ Transaction created')
 
-    // Check if transaction was signed and broadcast automatically
-    if (createResult.txid) {
-      console.log('\n✅ Transaction broadcast successful!')
-      console.log(`   TXID: ${createResult.txid}`)
+    // Sign each token input with the key derived for this wallet's identity
+    console.log('\n📡 Signing and broadcasting...')
+    if (WALLET_BACKEND !== 'local') {
+      console.log('   (Check your BSV Desktop Wallet for approval dialog)')
+    }
+
+    try {
+      const partialTx = Transaction.fromAtomicBEEF(createResult.signableTransaction.tx)
+      const spends: Record<number, { unlockingScript: string }> = {}
+
+      for (let i = 0; i < utxos.length; i++) {
+        const unlocker = unlockTokenOutput(
+          this.wallet,
+          ORIGINATOR,
+          utxos[i].satoshis,
+          LockingScript.fromHex(utxos[i].lockingScript)
+        )
+        const unlockingScript = await unlocker.sign(partialTx, i)
+        spends[i] = { unlockingScript: unlockingScript.toHex() }
+      }
+
+      const signResult = await this.wallet.signAction({
+        spends,
+        reference: createResult.signableTransaction.reference
+      })
+
+      const txid = signResult.txid
+
+      if (!txid) {
+        throw new Error('No TXID returned from wallet')
+      }
+
+      console.log(`\n✅ Transaction broadcast successful!`)
+      console.log(`   TXID: ${txid}`)
 
       // Show blockchain explorer link
-      const explorerUrl = `https://whatsonchain.com/tx/${createResult.txid}`
+      const explorerUrl = `https://whatsonchain.com/tx/${txid}`
       console.log(`   Explorer: ${explorerUrl}`)
 
       // Submit to overlay
-      await this.submitToOverlay(createResult.txid)
+      const submitted = await this.submitToOverlay(signResult.tx!)
 
-      return {
-        txid: createResult.txid,
-        amount,
-        change
+      return { txid, beef: signResult.tx!, rejections: submitted?.rejections ?? [], submitted: submitted !== undefined }
+    } catch (error: any) {
+      console.error('\n❌ Transaction failed:', error.message)
+
+      if (WALLET_BACKEND !== 'local' && (error.message.includes('denied') || error.message.includes('rejected'))) {
+        console.log('\n💡 You may have rejected the transaction in BSV Desktop Wallet')
+        console.log('   Try again and approve when prompted')
       }
-    } else if (createResult.signableTransaction) {
-      // Transaction needs manual signing
-      console.log('\n📡 Signing and broadcasting...')
-      console.log('   (Check your BSV Desktop Wallet for approval dialog)')
 
-      try {
-        const signResult = await this.wallet.signAction({
-          spends: {},
-          reference: createResult.signableTransaction.reference
-        })
+      // Release the token UTXOs locked by the unsigned action
+      await this.wallet.abortAction({ reference: createResult.signableTransaction.reference }).catch(() => {})
 
-        const txid = signResult.txid
+      throw error
+    }
+  }
 
-        if (!txid) {
-          throw new Error('No TXID returned from wallet')
-        }
+  /**
+   * Transfer tokens to another identity key using BSV Desktop Wallet (spendable PushDrop)
+   *
+   * Only the token UTXOs picked by the coin selection strategy are spent
+   * (COIN_SELECTION / MAX_TOKEN_INPUTS in .env by default).
+   */
+  async transfer(
+    tokenId: string,
+    amount: bigint,
+    recipientKey: string,
+    strategy = COIN_SELECTION as CoinSelectionStrategy,
+    maxInputs = parseInt(MAX_TOKEN_INPUTS)
+  ) {
+    if (!IDENTITY_KEY_PATTERN.test(recipientKey)) {
+      throw new Error('Recipient must be an identity key: a 33-byte compressed public key in hex (66 characters, starting 02 or 03)')
+    }
+    recipientKey = recipientKey.toLowerCase()
 
-        console.log(`\n✅ Transaction broadcast successful!`)
-        console.log(`   TXID: ${txid}`)
+    console.log(`\n📤 Transferring tokens...`)
+    console.log(`  Token ID: ${tokenId}`)
+    console.log(`  Amount: ${amount}`)
+    console.log(`  To: ${recipientKey}`)
 
-        // Show blockchain explorer link
-        const explorerUrl = `https://whatsonchain.com/tx/${txid}`
-        console.log(`   Explorer: ${explorerUrl}`)
+    const { selected: utxos, total: totalSelected, change } = await this.selectOwnUTXOs(tokenId, amount, strategy, maxInputs)
 
-        // Submit to overlay
-        await this.submitToOverlay(txid)
+    // Create token outputs using PushDrop
+    console.log('   Creating PushDrop token outputs...')
+    const recipientScript = await this.createTransferScript(tokenId, amount, recipientKey)
+    const outputs: CreateActionOutput[] = [
+      // Recipient's token output
+      {
+        lockingScript: recipientScript.toHex(),
+        satoshis: 1000, // Minimum satoshis for spendable output
+        outputDescription: 'PushDrop token transfer'
+      },
+      // Change output if needed (back to sender)
+      ...await this.createChangeOutputs(tokenId, change)
+    ]
 
-        return {
-          txid,
-          amount,
-          change
-        }
-      } catch (error: any) {
-        console.error('\n❌ Transaction failed:', error.message)
+    console.log('\n📝 Creating transaction...')
+    console.log(`   Inputs: ${totalSelected} tokens from ${utxos.length} UTXO(s)`)
+    console.log(`   To recipient: ${amount}`)
+    console.log(`   Change: ${change}`)
+
+    const { txid, rejections } = await this.spendTokenUTXOs(tokenId, utxos, outputs, `Transfer ${amount} tokens`)
+
+    return {
+      txid,
+      amount,
+      change,
+      rejections
+    }
+  }
+
+  /**
+   * Burn tokens: spend this wallet's token UTXOs and destroy `amount` of them
+   * with an explicit OP_RETURN burn record, returning any change to ourselves
+   */
+  async burn(
+    tokenId: string,
+    amount: bigint,
+    strategy = COIN_SELECTION as CoinSelectionStrategy,
+    maxInputs = parseInt(MAX_TOKEN_INPUTS)
+  ) {
+    console.log(`\n🔥 Burning tokens...`)
+    console.log(`  Token ID: ${tokenId}`)
+    console.log(`  Amount: ${amount}`)
 
-        if (error.message.includes('denied') || error.message.includes('rejected')) {
-          console.log('\n💡 You may have rejected the transaction in BSV Desktop Wallet')
-          console.log('   Try again and approve when prompted')
+    const { selected: utxos, total: totalSelected, change } = await this.selectOwnUTXOs(tokenId, amount, strategy, maxInputs)
+
+    const outputs: CreateActionOutput[] = [
+      {
+        lockingScript: createBurnScript({ tokenId, amount }).toHex(),
+        satoshis: 0,
+        outputDescription: 'Token burn record'
+      },
+      ...await this.createChangeOutputs(tokenId, change)
+    ]
+
+    console.log('\n📝 Creating transaction...')
+    console.log(`   Inputs: ${totalSelected} tokens from ${utxos.length} UTXO(s)`)
+    console.log(`   Burned: ${amount}`)
+    console.log(`   Change: ${change}`)
+
+    const { txid, rejections } = await this.spendTokenUTXOs(tokenId, utxos, outputs, `Burn ${amount} tokens`)
+
+    return {
+      txid,
+      amount,
+      change,
+      rejections
+    }
+  }
+
+  /**
+   * Send tokens to many recipients, packing them into as few transactions
+   * as AIRDROP_MAX_OUTPUTS / AIRDROP_MAX_TX_BYTES allow, each with a single
+   * change output back to this wallet.
+   *
+   * The outcome of every recipient is written to resultsPath after each
+   * transaction. If that file already exists the run resumes from it:
+   * transactions the overlay never indexed are resubmitted, recipients
+   * already paid are skipped and spent token outputs are never selected.
+   */
+  async batchTransfer(
+    tokenId: string,
+    listPath: string,
+    resultsPath = `${listPath}.results.json`,
+    strategy = COIN_SELECTION as CoinSelectionStrategy,
+    maxInputs = parseInt(MAX_TOKEN_INPUTS)
+  ) {
+    const { recipients, errors } = parseAirdropList(readFileSync(listPath, 'utf8'), airdropFormatOf(listPath))
+    const results = this.readAirdropResults(resultsPath, tokenId, listPath)
+    const now = () => new Date().toISOString()
+
+    // Rows that could not be parsed are reported, not sent
+    recordResults(results, errors.map(e => ({
+      index: e.index,
+      recipientKey: '',
+      amount: '0',
+      status: 'failed' as const,
+      error: `${e.error}: ${e.entry}`,
+      updatedAt: now()
+    })))
+
+    if (results.unsubmitted.length > 0) {
+      await this.resubmitAirdropTxs(results, now())
+      this.writeAirdropResults(resultsPath, results)
+    }
+
+    const pending = pendingRecipients(recipients, results.results)
+    console.log(`\n📦 Airdrop of token ${tokenId}`)
+    console.log(`   ${recipients.length} recipient(s) in ${listPath}, ${recipients.length - pending.length} already sent, ${errors.length} invalid`)
+    if (results.unsubmitted.length > 0) {
+      console.log(`   ${results.unsubmitted.length} transaction(s) still not submitted to the overlay`)
+    }
+
+    // Lock every pending output up front so batches can be packed by size,
+    // leaving room for the token inputs and the change output
+    const locked = await Promise.all(pending.map(async recipient => ({
+      recipient,
+      output: {
+        lockingScript: (await this.createTransferScript(tokenId, recipient.amount, recipient.recipientKey)).toHex(),
+        satoshis: 1000, // Minimum satoshis for spendable output
+        outputDescription: 'PushDrop token airdrop'
+      } as CreateActionOutput
+    })))
+    const changeSize = locked.length > 0 ? outputSize(locked[0].output.lockingScript) : 0
+    const batches = packBatches(
+      locked,
+      ({ output }) => outputSize(output.lockingScript),
+      parseInt(AIRDROP_MAX_TX_BYTES) - maxInputs * TOKEN_INPUT_SIZE - changeSize,
+      parseInt(AIRDROP_MAX_OUTPUTS) - 1
+    )
+    console.log(`   Sending ${pending.length} recipient(s) in ${batches.length} transaction(s)`)
+
+    const txids: string[] = []
+    // Inputs of every batch sent so far, in this run or earlier ones, in
+    // case the overlay has not seen it
+    const spent = new Set(results.spent)
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i]
+      const total = batch.reduce((sum, { recipient }) => sum + recipient.amount, 0n)
+      console.log(`\n📤 Batch ${i + 1}/${batches.length}: ${batch.length} recipient(s), ${total} tokens`)
+
+      let outcome: Pick<AirdropResult, 'status' | 'txid' | 'error'>
+      try {
+        const { selected: utxos, change } = await this.selectOwnUTXOs(tokenId, total, strategy, maxInputs, spent)
+        const outputs = [
+          ...batch.map(({ output }) => output),
+          ...await this.createChangeOutputs(tokenId, change)
+        ]
+        const { txid, beef, rejections, submitted } = await this.spendTokenUTXOs(tokenId, utxos, outputs, `Airdrop ${total} tokens to ${batch.length} recipients`)
+        for (const utxo of utxos) {
+          spent.add(outpointOf(utxo))
         }
+        results.spent = [...spent]
+        txids.push(txid)
+        if (!submitted) {
+          results.unsubmitted.push({ txid, beef: Utils.toHex(beef) })
+        }
+        outcome = this.airdropOutcome(txid, rejections, submitted)
+      } catch (error) {
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) }
+      }
+
+      recordResults(results, batch.map(({ recipient }) => this.toAirdropResult(recipient, outcome, now())))
+      this.writeAirdropResults(resultsPath, results)
+    }
+
+    const count = (status: AirdropResult['status']) => results.results.filter(r => r.status === status).length
+    return { txids, sent: count('sent'), failed: count('failed'), unsubmitted: count('unsubmitted'), resultsPath }
+  }
 
-        throw error
+  /**
+   * Submit the transactions of earlier runs that the overlay never indexed,
+   * settling the recipients they pay. Those still unreachable stay queued.
+   */
+  private async resubmitAirdropTxs(results: AirdropResults, updatedAt: string): Promise<void> {
+    const queued: UnsubmittedAirdropTx[] = []
+    for (const tx of results.unsubmitted) {
+      console.log(`\n🔁 Resubmitting airdrop transaction ${tx.txid}`)
+      const submitted = await this.submitToOverlay(Utils.toArray(tx.beef, 'hex'))
+      if (!submitted) {
+        queued.push(tx)
+        continue
       }
-    } else {
-      throw new Error('Unexpected createAction result: no txid or signableTransaction')
+      const outcome = this.airdropOutcome(tx.txid, submitted.rejections, true)
+      recordResults(results, results.results
+        .filter(r => r.status === 'unsubmitted' && r.txid === tx.txid)
+        .map(({ index, recipientKey, amount }) => ({ index, recipientKey, amount, ...outcome, updatedAt })))
+    }
+    results.unsubmitted = queued
+  }
+
+  /**
+   * Outcome of the recipients of a broadcast airdrop transaction. Outputs
+   * the overlay did not index cannot be spent by their recipients.
+   */
+  private airdropOutcome(
+    txid: string,
+    rejections: TokenRejection[],
+    submitted: boolean
+  ): Pick<AirdropResult, 'status' | 'txid' | 'error'> {
+    if (!submitted) {
+      return { status: 'unsubmitted', txid, error: 'Broadcast, but not yet submitted to the overlay' }
+    }
+    if (rejections.length > 0) {
+      return { status: 'failed', txid, error: rejections.map(formatRejection).join('; ') }
     }
+    return { status: 'sent', txid }
+  }
+
+  private toAirdropResult(
+    recipient: AirdropRecipient,
+    outcome: Pick<AirdropResult, 'status' | 'txid' | 'error'>,
+    updatedAt: string
+  ): AirdropResult {
+    return {
+      index: recipient.index,
+      recipientKey: recipient.recipientKey,
+      amount: recipient.amount.toString(),
+      ...outcome,
+      updatedAt
+    }
+  }
+
+  /**
+   * Load the results of an earlier run of the same airdrop, or start afresh
+   */
+  private readAirdropResults(path: string, tokenId: string, source: string): AirdropResults {
+    if (!existsSync(path)) {
+      return { tokenId, source, results: [], spent: [], unsubmitted: [] }
+    }
+    const results = JSON.parse(readFileSync(path, 'utf8')) as AirdropResults
+    if (results.tokenId !== tokenId) {
+      throw new Error(`${path} holds results for token ${results.tokenId}, not ${tokenId}`)
+    }
+    // Results files written before spent outpoints were kept
+    results.spent ??= []
+    results.unsubmitted ??= []
+    console.log(`   Resuming from ${path}`)
+    return results
+  }
+
+  /**
+   * Write the results file atomically
+   */
+  private writeAirdropResults(path: string, results: AirdropResults): void {
+    writeFileAtomic(path, JSON.stringify(results, null, 2))
   }
 
   /**
@@ -432,7 +910,9 @@ Overlay: ${this.overlayUrl}
         console.log('\nOptions:')
         console.log('  1. View Balances')
         console.log('  2. Transfer Tokens')
-        console.log('  3. Exit')
+        console.log('  3. Burn Tokens')
+        console.log('  4. Airdrop Tokens (CSV/JSON list)')
+        console.log('  5. Exit')
 
         const choice = await rl.question('\nChoice: ')
 
@@ -445,9 +925,9 @@ Overlay: ${this.overlayUrl}
             case '2':
               const tokenId = await rl.question('Token ID: ')
               const amountStr = await rl.question('Amount: ')
-              const recipient = await rl.question('Recipient Address: ')
+              const recipient = (await rl.question('Recipient identity key: ')).trim()
 
-              const amount = parseInt(amountStr)
+              const amount = parseTokenAmount(amountStr.trim())
               if (!tokenId || !amount || !recipient) {
                 console.log('❌ All fields are required')
                 break
@@ -459,7 +939,53 @@ Overlay: ${this.overlayUrl}
               console.log(`  Explorer: https://whatsonchain.com/tx/${result.txid}`)
               break
 
-            case '3':
+            case '3': {
+              const burnTokenId = await rl.question('Token ID: ')
+              const burnAmount = parseTokenAmount((await rl.question('Amount to burn: ')).trim())
+              if (!burnTokenId || !burnAmount) {
+                console.log('❌ All fields are required')
+                break
+              }
+
+              const confirm = await rl.question(`Permanently destroy ${burnAmount} tokens? (yes/no): `)
+              if (confirm.trim().toLowerCase() !== 'yes') {
+                console.log('Burn cancelled')
+                break
+              }
+
+              const burned = await this.burn(burnTokenId, burnAmount)
+              console.log(`\n✓ Burn successful!`)
+              console.log(`  Transaction: ${burned.txid}`)
+              console.log(`  Explorer: https://whatsonchain.com/tx/${burned.txid}`)
+              break
+            }
+
+            case '4': {
+              const airdropTokenId = await rl.question('Token ID: ')
+              const listPath = (await rl.question('Recipient list (.csv or .json): ')).trim()
+              if (!airdropTokenId || !listPath) {
+                console.log('❌ All fields are required')
+                break
+              }
+              const resultsPath = (await rl.question(`Results file (default ${listPath}.results.json): `)).trim() || undefined
+
+              const confirm = await rl.question(`Send tokens to every recipient in ${listPath}? (yes/no): `)
+              if (confirm.trim().toLowerCase() !== 'yes') {
+                console.log('Airdrop cancelled')
+                break
+              }
+
+              const airdrop = await this.batchTransfer(airdropTokenId, listPath, resultsPath)
+              console.log(`\n✓ Airdrop finished in ${airdrop.txids.length} transaction(s)`)
+              console.log(`  Sent: ${airdrop.sent}, failed: ${airdrop.failed}, not yet submitted: ${airdrop.unsubmitted}`)
+              console.log(`  Results: ${airdrop.resultsPath}`)
+              if (airdrop.failed > 0 || airdrop.unsubmitted > 0) {
+                console.log('  Run the airdrop again with the same results file to retry the failures and resubmit')
+              }
+              break
+            }
+
+            case '5':
               console.log('\n👋 Goodbye!')
               rl.close()
               return
@@ -475,12 +1001,9 @@ Overlay: ${this.overlayUrl}
       console.error('\n❌ Error:', error instanceof Error ? error.message : error)
 
       if (error instanceof Error) {
-        if (error.message.includes('BSV Desktop Wallet') || error.message.includes('connect')) {
+        if (error.message.includes('connect')) {
           console.log('\n💡 Troubleshooting:')
-          console.log('   1. Make sure BSV Desktop Wallet is running')
-          console.log('   2. Unlock your wallet if it\'s locked')
-          console.log('   3. Check your wallet has BSV for fees (~$0.01)')
-          console.log('   4. Ensure wallet connection is available')
+          walletChecklist(WALLET_BACKEND, 'WALLET_PRIVATE_KEY').forEach((check, i) => console.log(`   ${i + 1}. ${check}`))
         }
       }
     } finally {
@@ -489,10 +1012,13 @@ Overlay: ${this.overlayUrl}
   }
 }
 
-// Run the app
+// Run the app when executed directly (npm run wallet), not when imported
+// by the token CLI
 async function main() {
   const app = new WalletApp()
   await app.runInteractive()
 }
 
-main().catch(console.error)
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(console.error)
+}
@@ -0,0 +1,243 @@
+import {
+  BroadcastFailure,
+  BroadcastResponse,
+  Broadcaster,
+  ChainTracker,
+  Hash,
+  LockingScript,
+  MerklePath,
+  P2PKH,
+  Random,
+  Spend,
+  Transaction,
+  Utils
+} from '@bsv/sdk'
+import { existsSync, readFileSync } from 'fs'
+import { writeFileAtomic } from '../files/AtomicFile.js'
+
+/**
+ * A block of the mock chain: a fake coinbase followed by one transaction
+ */
+export interface MockBlockHeader {
+  height: number
+  hash: string
+  previousHash: string
+  merkleRoot: string
+  time: number  // Unix seconds
+}
+
+/**
+ * A transaction the mock chain has mined
+ */
+export interface MockChainTx {
+  txid: string
+  rawTx: string  // Hex
+  blockHeight: number
+  merklePath: string  // Hex BUMP
+}
+
+export interface MockChainOptions {
+  file?: string  // Persist the chain here so it survives restarts
+  startHeight?: number  // Height of the first block, 1 by default
+}
+
+interface MockChainState {
+  headers: MockBlockHeader[]
+  txs: Record<string, MockChainTx>
+  spent: Record<string, string>  // Outpoint (txid.vout) -> spending txid
+}
+
+const ZERO_HASH = '00'.repeat(32)
+
+/**
+ * MockChain - An in-process stand-in for the blockchain, for running the
+ * overlay and the apps offline.
+ *
+ * It is both the Broadcaster and the ChainTracker of the overlay engine.
+ * Every transaction it accepts is mined straight away into a block of its
+ * own, next to a fake coinbase, so it has a merkle proof that verifies
+ * against the headers served by isValidRootForHeight. As on a node, a
+ * transaction is refused if an input is already spent, unknown (neither
+ * mined here nor supplied with the transaction, as EF or BEEF does) or
+ * fails script verification.
+ *
+ * fund() mints coins out of nothing, in a mined transaction, to get a local
+ * wallet going.
+ */
+export default class MockChain implements Broadcaster, ChainTracker {
+  private readonly state: MockChainState
+
+  constructor(private readonly options: MockChainOptions = {}) {
+    this.state = options.file && existsSync(options.file)
+      ? JSON.parse(readFileSync(options.file, 'utf8')) as MockChainState
+      : { headers: [], txs: {}, spent: {} }
+  }
+
+  async broadcast(tx: Transaction): Promise<BroadcastResponse | BroadcastFailure> {
+    const txid = tx.id('hex')
+    if (this.state.txs[txid]) {
+      return { status: 'success', txid, message: 'Already mined' }
+    }
+
+    for (const input of tx.inputs) {
+      const outpoint = `${input.sourceTXID ?? input.sourceTransaction!.id('hex')}.${input.sourceOutputIndex}`
+      const spender = this.state.spent[outpoint]
+      if (spender) {
+        return {
+          status: 'error',
+          code: 'DOUBLE_SPEND_ATTEMPTED',
+          txid,
+          description: `${outpoint} is already spent by ${spender}`
+        }
+      }
+    }
+
+    const invalid = this.validateSpends(tx)
+    if (invalid) {
+      return { status: 'error', code: 'REJECTED', txid, description: invalid }
+    }
+
+    const mined = this.mine(tx)
+    return { status: 'success', txid, message: `Mined at height ${mined.blockHeight}` }
+  }
+
+  async isValidRootForHeight(root: string, height: number): Promise<boolean> {
+    return this.getHeader(height)?.merkleRoot === root
+  }
+
+  async currentHeight(): Promise<number> {
+    return this.tip()?.height ?? (this.options.startHeight ?? 1) - 1
+  }
+
+  getHeader(height: number): MockBlockHeader | undefined {
+    const first = this.state.headers[0]?.height ?? 0
+    return this.state.headers[height - first]
+  }
+
+  getTransaction(txid: string): MockChainTx | undefined {
+    return this.state.txs[txid]
+  }
+
+  /**
+   * A mined transaction with its merkle proof, as BEEF
+   */
+  getBEEF(txid: string): number[] | undefined {
+    const mined = this.state.txs[txid]
+    if (!mined) {
+      return undefined
+    }
+    const tx = Transaction.fromHex(mined.rawTx)
+    tx.merklePath = MerklePath.fromHex(mined.merklePath)
+    return tx.toBEEF()
+  }
+
+  /**
+   * Mine a transaction paying `satoshis` to an address (or locking script)
+   * out of nothing. Returns it with its merkle proof.
+   */
+  fund(to: string | LockingScript, satoshis: number): Transaction {
+    const tx = new Transaction()
+    tx.addOutput({
+      lockingScript: typeof to === 'string' ? new P2PKH().lock(to) : to,
+      satoshis
+    })
+    // A unique lock time keeps repeated grants to one address apart
+    tx.lockTime = new Utils.Reader(Random(4)).readUInt32LE()
+    const mined = this.mine(tx)
+    tx.merklePath = MerklePath.fromHex(mined.merklePath)
+    return tx
+  }
+
+  /**
+   * Check each input's unlocking script against the output it spends, and
+   * that the outputs do not spend more than the inputs. Returns why the
+   * transaction is invalid, if it is.
+   */
+  private validateSpends(tx: Transaction): string | undefined {
+    let inputTotal = 0
+    for (const [i, input] of tx.inputs.entries()) {
+      const sourceTXID = input.sourceTXID ?? input.sourceTransaction!.id('hex')
+      const mined = this.state.txs[sourceTXID]
+      const source = input.sourceTransaction?.outputs[input.sourceOutputIndex] ??
+        (mined ? Transaction.fromHex(mined.rawTx).outputs[input.sourceOutputIndex] : undefined)
+      if (!source) {
+        return `Missing inputs: ${sourceTXID}.${input.sourceOutputIndex} is not known`
+      }
+      if (!input.unlockingScript) {
+        return `Input ${i} is not signed`
+      }
+      inputTotal += source.satoshis ?? 0
+
+      const spend = new Spend({
+        sourceTXID,
+        sourceOutputIndex: input.sourceOutputIndex,
+        lockingScript: source.lockingScript,
+        sourceSatoshis: source.satoshis ?? 0,
+        transactionVersion: tx.version,
+        otherInputs: tx.inputs.filter((_, j) => j !== i),
+        unlockingScript: input.unlockingScript,
+        inputSequence: input.sequence ?? 0xffffffff,
+        inputIndex: i,
+        outputs: tx.outputs,
+        lockTime: tx.lockTime
+      })
+      try {
+        if (!spend.validate()) {
+          return `Input ${i} failed script verification`
+        }
+      } catch (error) {
+        return `Input ${i} failed script verification: ${error instanceof Error ? error.message : error}`
+      }
+    }
+
+    const outputTotal = tx.outputs.reduce((sum, output) => sum + (output.satoshis ?? 0), 0)
+    if (tx.inputs.length > 0 && outputTotal > inputTotal) {
+      return `Outputs (${outputTotal} sats) exceed inputs (${inputTotal} sats)`
+    }
+    return undefined
+  }
+
+  /**
+   * Mine a transaction into a new block after a fake coinbase
+   */
+  private mine(tx: Transaction): MockChainTx {
+    const txid = tx.id('hex')
+    const coinbase = Utils.toHex(Random(32))
+    const blockHeight = (this.tip()?.height ?? (this.options.startHeight ?? 1) - 1) + 1
+    const merklePath = new MerklePath(blockHeight, [[
+      { offset: 0, hash: coinbase },
+      { offset: 1, hash: txid, txid: true }
+    ]])
+    const merkleRoot = merklePath.computeRoot(txid)
+    const previousHash = this.tip()?.hash ?? ZERO_HASH
+
+    this.state.headers.push({
+      height: blockHeight,
+      hash: Utils.toHex(Hash.hash256(Utils.toArray(`${previousHash}${merkleRoot}${blockHeight}`, 'utf8')).reverse()),
+      previousHash,
+      merkleRoot,
+      time: Math.floor(Date.now() / 1000)
+    })
+    for (const input of tx.inputs) {
+      this.state.spent[`${input.sourceTXID ?? input.sourceTransaction!.id('hex')}.${input.sourceOutputIndex}`] = txid
+    }
+    const mined = { txid, rawTx: tx.toHex(), blockHeight, merklePath: merklePath.toHex() }
+    this.state.txs[txid] = mined
+    this.save()
+    return mined
+  }
+
+  private tip(): MockBlockHeader | undefined {
+    return this.state.headers[this.state.headers.length - 1]
+  }
+
+  /**
+   * Write the chain file atomically
+   */
+  private save(): void {
+    if (!this.options.file) {
+      return
+    }
+    writeFileAtomic(this.options.file, JSON.stringify(this.state))
+  }
+}
@@ -0,0 +1,109 @@
+import express, { Router } from 'express'
+import { Transaction, Utils } from '@bsv/sdk'
+import MockChain from './MockChain.js'
+import { createLogger } from '../logging/Logger.js'
+import { ApiError, apiErrorHandler, handle, requireTxid } from '../http/HttpApi.js'
+
+const ADDRESS = /^[1mn][1-9A-HJ-NP-Za-km-z]{25,34}$/
+
+/**
+ * Parse a transaction the way ARC accepts it: extended format, raw, or BEEF
+ */
+function parseRawTx(value: unknown): Transaction {
+  if (typeof value === 'string' && /^([0-9a-fA-F]{2})+$/.test(value)) {
+    const parsers = [Transaction.fromHexEF, Transaction.fromHex, Transaction.fromHexBEEF]
+    for (const parse of parsers) {
+      try {
+        return parse.call(Transaction, value)
+      } catch {}
+    }
+  }
+  throw new ApiError(400, 'ERR_MALFORMED', 'rawTx must be a transaction in hex (EF, raw or BEEF)')
+}
+
+/**
+ * Create the REST router of the mock chain, mounted on the overlay's
+ * express app when it runs with CHAIN_SERVICE=mock.
+ *
+ * Routes:
+ *   POST /mock-chain/v1/tx { rawTx }            broadcast (ARC-compatible: set ARC_URL
+ *                                               to <overlay>/mock-chain in the apps)
+ *   GET  /mock-chain/v1/tx/:txid                status of a transaction (ARC-compatible)
+ *   GET  /mock-chain/height                     current block height
+ *   GET  /mock-chain/headers/:height            a block header
+ *   GET  /mock-chain/tx/:txid/beef              a mined transaction with its proof
+ *   POST /mock-chain/fund { address, satoshis } mine coins to an address (a faucet)
+ *
+ * Errors are returned as { error, code } with a 4xx/5xx status.
+ */
+export default function createMockChainRouter(chain: MockChain): Router {
+  const router = express.Router()
+  const logger = createLogger('mock-chain')
+  router.use('/mock-chain', express.json({ limit: '10mb' }))
+
+  router.post('/mock-chain/v1/tx', handle(async (req, res) => {
+    const tx = parseRawTx(req.body?.rawTx)
+    const result = await chain.broadcast(tx)
+    if (result.status === 'success') {
+      const mined = chain.getTransaction(result.txid)!
+      res.json({ txid: result.txid, txStatus: 'MINED', extraInfo: result.message, blockHeight: mined.blockHeight })
+    } else {
+      // ARC reports rejections with a 200 and an error txStatus
+      res.json({ txid: result.txid, txStatus: result.code, extraInfo: result.description })
+    }
+  }))
+
+  router.get('/mock-chain/v1/tx/:txid', handle(async (req, res) => {
+    const txid = requireTxid(req.params.txid)
+    const mined = chain.getTransaction(txid)
+    if (!mined) {
+      throw new ApiError(404, 'ERR_TX_NOT_FOUND', `Transaction ${txid} has not been broadcast`)
+    }
+    res.json({
+      txid,
+      txStatus: 'MINED',
+      blockHeight: mined.blockHeight,
+      blockHash: chain.getHeader(mined.blockHeight)!.hash,
+      merklePath: mined.merklePath
+    })
+  }))
+
+  router.get('/mock-chain/height', handle(async (req, res) => {
+    res.json({ height: await chain.currentHeight() })
+  }))
+
+  router.get('/mock-chain/headers/:height', handle(async (req, res) => {
+    const height = Number(req.params.height)
+    const header = Number.isSafeInteger(height) ? chain.getHeader(height) : undefined
+    if (!header) {
+      throw new ApiError(404, 'ERR_HEADER_NOT_FOUND', `No block at height ${req.params.height}`)
+    }
+    res.json(header)
+  }))
+
+  router.get('/mock-chain/tx/:txid/beef', handle(async (req, res) => {
+    const txid = requireTxid(req.params.txid)
+    const beef = chain.getBEEF(txid)
+    if (!beef) {
+      throw new ApiError(404, 'ERR_TX_NOT_FOUND', `Transaction ${txid} has not been broadcast`)
+    }
+    res.json({ txid, beef: Utils.toHex(beef) })
+  }))
+
+  router.post('/mock-chain/fund', handle(async (req, res) => {
+    const { address, satoshis } = req.body ?? {}
+    if (typeof address !== 'string' || !ADDRESS.test(address)) {
+      throw new ApiError(400, 'ERR_INVALID_ADDRESS', 'address must be a P2PKH address')
+    }
+    if (!Number.isSafeInteger(satoshis) || satoshis <= 0) {
+      throw new ApiError(400, 'ERR_INVALID_SATOSHIS', 'satoshis must be a positive integer')
+    }
+    const tx = chain.fund(address, satoshis)
+    res.json({ txid: tx.id('hex'), beef: tx.toHexBEEF() })
+  }))
+
+  // Consistent JSON error bodies for everything above
+  router.use('/mock-chain', apiErrorHandler(logger, 'Mock chain error'))
+
+  return router
+}
@@ -0,0 +1,12 @@
+import { mkdirSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+/**
+ * Write a file through a temporary file and a rename, creating its
+ * directory if needed, so an interrupted write never leaves it half-written
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(`${path}.tmp`, data)
+  renameSync(`${path}.tmp`, path)
+}
@@ -0,0 +1,88 @@
+import { ErrorRequestHandler, NextFunction, Request, Response } from 'express'
+import { Logger } from '../logging/Logger.js'
+
+export const HEX_32_BYTES = /^[0-9a-fA-F]{64}$/
+
+/**
+ * Error with an HTTP status and a machine-readable code, rendered as
+ * { error, code } by apiErrorHandler
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Wrap an async route handler so rejections reach the error handler
+ */
+export const handle = (fn: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next)
+  }
+
+/**
+ * The status and type express.json() sets on the errors it raises for
+ * unparseable, oversized or otherwise unacceptable request bodies
+ */
+interface BodyParserError {
+  status: number
+  type: string
+}
+
+function isBodyParserError(error: unknown): error is BodyParserError {
+  const { status, type } = (error ?? {}) as Partial<BodyParserError>
+  return typeof status === 'number' && status >= 400 && status < 500 && typeof type === 'string'
+}
+
+/**
+ * The client's fault, not ours: 413 for bodies over the limit, the
+ * parser's own 4xx for anything else it refused
+ */
+function fromBodyParserError(error: BodyParserError): ApiError {
+  if (error.type === 'entity.too.large') {
+    return new ApiError(413, 'ERR_BODY_TOO_LARGE', 'Request body is too large')
+  }
+  if (error.type === 'entity.parse.failed') {
+    return new ApiError(400, 'ERR_MALFORMED_BODY', 'Request body is not valid JSON')
+  }
+  return new ApiError(error.status, 'ERR_MALFORMED_BODY', 'Request body could not be read')
+}
+
+export function requireTxid(value: unknown): string {
+  if (typeof value !== 'string' || !HEX_32_BYTES.test(value)) {
+    throw new ApiError(400, 'ERR_INVALID_TXID', 'txid must be 32 bytes of hex')
+  }
+  return value.toLowerCase()
+}
+
+/**
+ * Error handler answering every error with a { error, code } JSON body:
+ * an ApiError with its own status, a rejected request body with the
+ * body parser's 4xx, anything else as a logged 500
+ *
+ * @param message Log message for unexpected errors, e.g. 'Token API error'
+ */
+export function apiErrorHandler(logger: Logger, message: string): ErrorRequestHandler {
+  return (error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      return next(error)
+    }
+    if (isBodyParserError(error)) {
+      error = fromBodyParserError(error)
+    }
+    if (error instanceof ApiError) {
+      res.status(error.status).json({ error: error.message, code: error.code })
+      return
+    }
+    logger.error(message, { method: req.method, path: req.path, error })
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error',
+      code: 'ERR_INTERNAL'
+    })
+  }
+}
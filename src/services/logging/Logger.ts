@@ -0,0 +1,136 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured context attached to log lines, such as the txid of a submission
+ * or the type of a lookup query
+ */
+export type LogFields = Record<string, unknown>
+
+export interface LoggerOptions {
+  level?: LogLevel | 'silent'  // Lines below this level are dropped, 'info' by default
+  json?: boolean  // One JSON object per line instead of text
+  fields?: LogFields  // Added to every line
+  write?: (line: string, level: LogLevel) => void  // stdout, or stderr for warn and error, by default
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity
+}
+
+function isLevel(value: string | undefined): value is LogLevel | 'silent' {
+  return value !== undefined && Object.hasOwn(LEVELS, value)
+}
+
+/**
+ * Errors are logged as their message, and stack at debug level
+ */
+function serialize(value: unknown, withStack: boolean): unknown {
+  if (value instanceof Error) {
+    return withStack ? { message: value.message, stack: value.stack } : value.message
+  }
+  return value
+}
+
+/**
+ * JSON with bigints (token amounts) as decimal strings
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v)
+}
+
+function writeLine(line: string, level: LogLevel): void {
+  if (level === 'warn' || level === 'error') {
+    process.stderr.write(`${line}\n`)
+  } else {
+    process.stdout.write(`${line}\n`)
+  }
+}
+
+/**
+ * Logger - Levelled logging for the overlay services.
+ *
+ * Every line carries the fields of the logger it was written through, so a
+ * child logger made per submission ({ txid }) or per lookup ({ query,
+ * lookupId }) ties all of its lines together. Text lines read
+ *
+ *   2025-01-01T00:00:00.000Z INFO  Output admitted component=topic-manager txid=5e6f... outputIndex=0
+ *
+ * and JSON lines are { time, level, msg, ...fields }.
+ */
+export class Logger {
+  private readonly threshold: number
+  private readonly fields: LogFields
+  private readonly write: (line: string, level: LogLevel) => void
+
+  constructor(private readonly options: LoggerOptions = {}) {
+    this.threshold = LEVELS[options.level ?? 'info']
+    this.fields = options.fields ?? {}
+    this.write = options.write ?? writeLine
+  }
+
+  /**
+   * A logger adding the given fields to every line, e.g. a correlation id
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.options, fields: { ...this.fields, ...fields } })
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.threshold
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return
+    }
+    const withStack = this.isEnabled('debug')
+    const entries = Object.entries({ ...this.fields, ...fields })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]): [string, unknown] => [key, serialize(value, withStack)])
+    const time = new Date().toISOString()
+
+    if (this.options.json) {
+      this.write(toJson({ time, level, msg: message, ...Object.fromEntries(entries) }), level)
+      return
+    }
+
+    const context = entries
+      .map(([key, value]) => `${key}=${typeof value === 'string' || typeof value === 'bigint' ? value : toJson(value)}`)
+      .join(' ')
+    this.write(`${time} ${level.toUpperCase().padEnd(5)} ${message}${context ? ` ${context}` : ''}`, level)
+  }
+}
+
+/**
+ * A logger for one component of the overlay, configured from the environment:
+ *   LOG_LEVEL   debug | info | warn | error | silent (default info)
+ *   LOG_FORMAT  text | json (default text)
+ */
+export function createLogger(component: string, env: NodeJS.ProcessEnv = process.env): Logger {
+  const level = env.LOG_LEVEL?.toLowerCase()
+  return new Logger({
+    level: isLevel(level) ? level : 'info',
+    json: env.LOG_FORMAT?.toLowerCase() === 'json',
+    fields: { component }
+  })
+}
@@ -0,0 +1,185 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client'
+import TokenStorageManager from '../token/TokenStorageManager.js'
+import { TOKEN_REJECTION_CODES, TokenRejectionCode } from '../token/TokenValidation.js'
+
+/**
+ * What an admitted output is
+ */
+export type AdmissionKind = 'genesis' | 'transfer' | 'burn' | 'mint-authority'
+
+const ADMISSION_KINDS: AdmissionKind[] = ['genesis', 'transfer', 'burn', 'mint-authority']
+
+export type LookupOutcome = 'ok' | 'error'
+
+export interface TokenMetricsOptions {
+  defaultMetrics?: boolean  // Also collect Node.js process metrics, true by default
+}
+
+/**
+ * TokenMetrics - Prometheus metrics of the token overlay.
+ *
+ *   token_outputs_admitted_total{kind}          outputs admitted by the topic manager
+ *   token_outputs_rejected_total{reason}        outputs rejected, by TokenRejectionCode
+ *   token_outputs_spent_total                   token outputs spent
+ *   token_outputs_evicted_total                 token outputs evicted
+ *   token_lookups_total{query,outcome}          lookup queries answered or failed
+ *   token_lookup_duration_seconds{query}        lookup latency
+ *   token_storage_errors_total{operation}       failed database operations
+ *   token_registered_tokens                     tokens in the registry
+ *   token_unspent_outputs                       unspent token outputs
+ *
+ * The two gauges are read from the storage manager on every render().
+ */
+export default class TokenMetrics {
+  readonly registry = new Registry()
+  private readonly admitted: Counter<'kind'>
+  private readonly rejected: Counter<'reason'>
+  private readonly spent: Counter
+  private readonly evicted: Counter
+  private readonly lookups: Counter<'query' | 'outcome'>
+  private readonly lookupDuration: Histogram<'query'>
+  private readonly storageErrors: Counter<'operation'>
+  private readonly registeredTokens: Gauge
+  private readonly unspentOutputs: Gauge
+  private storage?: TokenStorageManager
+
+  constructor(options: TokenMetricsOptions = {}) {
+    const registers = [this.registry]
+    this.admitted = new Counter({
+      name: 'token_outputs_admitted_total',
+      help: 'Outputs admitted by the token topic manager, by kind',
+      labelNames: ['kind'],
+      registers
+    })
+    this.rejected = new Counter({
+      name: 'token_outputs_rejected_total',
+      help: 'Outputs rejected by the token topic manager, by rejection code',
+      labelNames: ['reason'],
+      registers
+    })
+    this.spent = new Counter({
+      name: 'token_outputs_spent_total',
+      help: 'Token outputs marked as spent',
+      registers
+    })
+    this.evicted = new Counter({
+      name: 'token_outputs_evicted_total',
+      help: 'Token outputs evicted from the overlay',
+      registers
+    })
+    this.lookups = new Counter({
+      name: 'token_lookups_total',
+      help: 'Lookup queries, by query type and outcome',
+      labelNames: ['query', 'outcome'],
+      registers
+    })
+    this.lookupDuration = new Histogram({
+      name: 'token_lookup_duration_seconds',
+      help: 'Time to answer a lookup query, by query type',
+      labelNames: ['query'],
+      registers
+    })
+    this.registeredTokens = new Gauge({
+      name: 'token_registered_tokens',
+      help: 'Tokens in the token registry',
+      registers
+    })
+    this.unspentOutputs = new Gauge({
+      name: 'token_unspent_outputs',
+      help: 'Unspent token outputs across all tokens',
+      registers
+    })
+    this.storageErrors = new Counter({
+      name: 'token_storage_errors_total',
+      help: 'Failed database operations, by operation',
+      labelNames: ['operation'],
+      registers
+    })
+
+    // Start every series at zero so rates work from the first admission
+    for (const kind of ADMISSION_KINDS) {
+      this.admitted.inc({ kind }, 0)
+    }
+    for (const reason of TOKEN_REJECTION_CODES) {
+      this.rejected.inc({ reason }, 0)
+    }
+
+    if (options.defaultMetrics ?? true) {
+      collectDefaultMetrics({ register: this.registry })
+    }
+  }
+
+  /**
+   * Read the gauges from this storage manager
+   */
+  trackStorage(storage: TokenStorageManager): void {
+    this.storage = storage
+  }
+
+  outputAdmitted(kind: AdmissionKind): void {
+    this.admitted.inc({ kind })
+  }
+
+  outputRejected(reason: TokenRejectionCode): void {
+    this.rejected.inc({ reason })
+  }
+
+  outputSpent(): void {
+    this.spent.inc()
+  }
+
+  outputEvicted(): void {
+    this.evicted.inc()
+  }
+
+  storageError(operation: string): void {
+    this.storageErrors.inc({ operation })
+  }
+
+  /**
+   * Time a lookup. Call the returned function with its outcome once answered.
+   */
+  startLookup(query: string): (outcome: LookupOutcome) => void {
+    const stop = this.lookupDuration.startTimer({ query })
+    return outcome => {
+      stop()
+      this.lookups.inc({ query, outcome })
+    }
+  }
+
+  get contentType(): string {
+    return this.registry.contentType
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format. The gauges are
+   * read first: the registry collects its metrics concurrently, so a failed
+   * read would otherwise miss the error counter of this scrape.
+   */
+  async render(): Promise<string> {
+    await Promise.all([
+      this.readGauge(this.registeredTokens, 'count-tokens', storage => storage.countTokens()),
+      this.readGauge(this.unspentOutputs, 'count-unspent-outputs', storage => storage.countUnspentOutputs())
+    ])
+    return await this.registry.metrics()
+  }
+
+  /**
+   * Set a gauge from the storage manager. A failing database leaves the last
+   * value in place rather than failing the scrape.
+   */
+  private async readGauge(
+    gauge: Gauge,
+    operation: string,
+    read: (storage: TokenStorageManager) => Promise<number>
+  ): Promise<void> {
+    if (!this.storage) {
+      return
+    }
+    try {
+      gauge.set(await read(this.storage))
+    } catch {
+      this.storageError(operation)
+    }
+  }
+}
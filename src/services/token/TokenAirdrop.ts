@@ -0,0 +1,174 @@
+import { IDENTITY_KEY_PATTERN, parseTokenAmount } from './TokenOutput.js'
+
+/**
+ * One row of an airdrop list. index is the row's position in the list
+ * (0-based, data rows only), which identifies it in the results file.
+ */
+export interface AirdropRecipient {
+  index: number
+  recipientKey: string
+  amount: bigint
+}
+
+/**
+ * A row of an airdrop list that could not be parsed
+ */
+export interface AirdropListError {
+  index: number
+  entry: string
+  error: string
+}
+
+export type AirdropListFormat = 'csv' | 'json'
+
+/**
+ * Outcome of one recipient, as written to the results file. 'unsubmitted'
+ * means the transaction paying it was broadcast but the overlay has not
+ * indexed it yet: it is resubmitted on resume, never sent again.
+ */
+export interface AirdropResult {
+  index: number
+  recipientKey: string
+  amount: string  // Decimal string, like every amount in JSON
+  status: 'sent' | 'failed' | 'unsubmitted'
+  txid?: string
+  error?: string
+  updatedAt: string
+}
+
+/**
+ * A broadcast airdrop transaction the overlay has not indexed yet
+ */
+export interface UnsubmittedAirdropTx {
+  txid: string
+  beef: string  // Atomic BEEF in hex
+}
+
+/**
+ * Contents of an airdrop results file. A run resumed from it resubmits the
+ * unsubmitted transactions, skips every recipient already sent or awaiting
+ * one of them, and never spends the outpoints in spent again.
+ */
+export interface AirdropResults {
+  tokenId: string
+  source: string
+  results: AirdropResult[]
+  spent: string[]  // txid.outputIndex of every token input spent so far
+  unsubmitted: UnsubmittedAirdropTx[]
+}
+
+/**
+ * Pick the list format from a file name, defaulting to CSV
+ */
+export function airdropFormatOf(path: string): AirdropListFormat {
+  return path.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+}
+
+/**
+ * Parse an airdrop list of (recipient identity key, amount) pairs.
+ *
+ * CSV: one `recipientKey,amount` per line. A header line, blank lines and
+ * lines starting with # are skipped.
+ * JSON: an array of `{ "recipientKey": "02...", "amount": "1000" }`.
+ *
+ * Amounts are whole token units. Malformed rows are returned as errors
+ * rather than failing the whole list.
+ */
+export function parseAirdropList(
+  text: string,
+  format: AirdropListFormat
+): { recipients: AirdropRecipient[], errors: AirdropListError[] } {
+  const rows = format === 'json' ? jsonRows(text) : csvRows(text)
+  const recipients: AirdropRecipient[] = []
+  const errors: AirdropListError[] = []
+
+  rows.forEach(({ entry, recipientKey, amount }, index) => {
+    if (typeof recipientKey !== 'string' || !IDENTITY_KEY_PATTERN.test(recipientKey)) {
+      errors.push({ index, entry, error: 'recipientKey must be a 33-byte compressed public key in hex' })
+      return
+    }
+    const parsed = parseTokenAmount(amount)
+    if (parsed === undefined || parsed <= 0n) {
+      errors.push({ index, entry, error: `amount must be a positive whole number (got ${amount})` })
+      return
+    }
+    recipients.push({ index, recipientKey: recipientKey.toLowerCase(), amount: parsed })
+  })
+
+  return { recipients, errors }
+}
+
+interface AirdropRow {
+  entry: string
+  recipientKey: unknown
+  amount: unknown
+}
+
+function csvRows(text: string): AirdropRow[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+  if (lines.length > 0 && /recipient|key/i.test(lines[0])) {
+    lines.shift()
+  }
+  return lines.map(line => {
+    const [recipientKey, amount] = line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+    return { entry: line, recipientKey, amount }
+  })
+}
+
+function jsonRows(text: string): AirdropRow[] {
+  const parsed = JSON.parse(text)
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON airdrop list must be an array of { recipientKey, amount }')
+  }
+  return parsed.map(row => ({
+    entry: JSON.stringify(row),
+    recipientKey: row?.recipientKey,
+    amount: row?.amount
+  }))
+}
+
+/**
+ * Recipients that still need to be sent, given the results of earlier runs:
+ * those never tried and those that failed
+ */
+export function pendingRecipients(recipients: AirdropRecipient[], results: AirdropResult[]): AirdropRecipient[] {
+  const done = new Set(results.filter(r => r.status !== 'failed').map(r => r.index))
+  return recipients.filter(r => !done.has(r.index))
+}
+
+/**
+ * Record outcomes in a results list, replacing earlier outcomes for the same rows
+ */
+export function recordResults(results: AirdropResults, outcomes: AirdropResult[]): void {
+  const byIndex = new Map(results.results.map(r => [r.index, r]))
+  for (const outcome of outcomes) {
+    byIndex.set(outcome.index, outcome)
+  }
+  results.results = [...byIndex.values()].sort((a, b) => a.index - b.index)
+}
+
+/**
+ * Pack items in order into as few batches as possible, each at most
+ * maxBytes in total (by sizeOf) and maxItems long. An item larger than
+ * maxBytes on its own gets a batch to itself.
+ */
+export function packBatches<T>(items: T[], sizeOf: (item: T) => number, maxBytes: number, maxItems: number): T[][] {
+  const batches: T[][] = []
+  let current: T[] = []
+  let currentBytes = 0
+
+  for (const item of items) {
+    const size = sizeOf(item)
+    if (current.length > 0 && (currentBytes + size > maxBytes || current.length >= maxItems)) {
+      batches.push(current)
+      current = []
+      currentBytes = 0
+    }
+    current.push(item)
+    currentBytes += size
+  }
+  if (current.length > 0) {
+    batches.push(current)
+  }
+  return batches
+}
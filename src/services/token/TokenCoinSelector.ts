@@ -0,0 +1,183 @@
+import { randomInt } from 'crypto'
+
+/**
+ * Any token UTXO with an amount (bigint, or a decimal string as returned by the overlay)
+ */
+export interface SelectableUTXO {
+  amount: bigint | string
+}
+
+/**
+ * Result of selecting token UTXOs to cover a target amount
+ */
+export interface CoinSelection<T extends SelectableUTXO> {
+  selected: T[]
+  total: bigint
+  change: bigint
+}
+
+/**
+ * Picks UTXOs covering the target using at most maxInputs of them,
+ * or returns undefined if that is not possible
+ */
+export type CoinSelector = <T extends SelectableUTXO>(
+  utxos: T[],
+  target: bigint,
+  maxInputs: number
+) => T[] | undefined
+
+export type CoinSelectionStrategy = 'largest-first' | 'smallest-first' | 'exact-match' | 'random'
+
+/**
+ * Upper bound on the subsets branch-and-bound explores before giving up
+ */
+const EXACT_MATCH_MAX_TRIES = 100000
+
+const amountOf = (utxo: SelectableUTXO): bigint => BigInt(utxo.amount)
+
+const byAmountAscending = (a: SelectableUTXO, b: SelectableUTXO): number => {
+  const diff = amountOf(a) - amountOf(b)
+  return diff > 0n ? 1 : diff < 0n ? -1 : 0
+}
+
+const byAmountDescending = (a: SelectableUTXO, b: SelectableUTXO): number => byAmountAscending(b, a)
+
+/**
+ * Take UTXOs in the given order until the target is covered
+ */
+function accumulate<T extends SelectableUTXO>(ordered: T[], target: bigint, maxInputs: number): T[] | undefined {
+  const selected: T[] = []
+  let total = 0n
+  for (const utxo of ordered) {
+    if (total >= target || selected.length >= maxInputs) {
+      break
+    }
+    selected.push(utxo)
+    total += amountOf(utxo)
+  }
+  return total >= target ? selected : undefined
+}
+
+/**
+ * Fewest inputs: spend the largest UTXOs first
+ */
+const largestFirst: CoinSelector = (utxos, target, maxInputs) =>
+  accumulate([...utxos].sort(byAmountDescending), target, maxInputs)
+
+/**
+ * Consolidates dust: spend the smallest UTXOs first
+ */
+const smallestFirst: CoinSelector = (utxos, target, maxInputs) =>
+  accumulate([...utxos].sort(byAmountAscending), target, maxInputs)
+
+/**
+ * Branch-and-bound search for a subset summing exactly to the target, so no
+ * change output is needed. Falls back to largest-first when there is none.
+ */
+const exactMatch: CoinSelector = (utxos, target, maxInputs) => {
+  const sorted = [...utxos].sort(byAmountDescending)
+
+  // remaining[i] is the sum of sorted[i..], used to prune branches that cannot reach the target
+  const remaining: bigint[] = new Array(sorted.length + 1).fill(0n)
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    remaining[i] = remaining[i + 1] + amountOf(sorted[i])
+  }
+
+  let tries = 0
+  const chosen: number[] = []
+  const search = (index: number, total: bigint): boolean => {
+    if (total === target) {
+      return true
+    }
+    if (
+      ++tries > EXACT_MATCH_MAX_TRIES ||
+      index >= sorted.length ||
+      chosen.length >= maxInputs ||
+      total + remaining[index] < target
+    ) {
+      return false
+    }
+
+    // Include sorted[index] if it does not overshoot, then try without it
+    const amount = amountOf(sorted[index])
+    if (total + amount <= target) {
+      chosen.push(index)
+      if (search(index + 1, total + amount)) {
+        return true
+      }
+      chosen.pop()
+    }
+    return search(index + 1, total)
+  }
+
+  if (target > 0n && search(0, 0n)) {
+    return chosen.map(i => sorted[i])
+  }
+  return largestFirst(utxos, target, maxInputs)
+}
+
+/**
+ * Privacy-preserving: spend a random selection of UTXOs, so the inputs
+ * do not reveal the rest of the holder's balance
+ */
+const random: CoinSelector = (utxos, target, maxInputs) => {
+  const shuffled = [...utxos]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return accumulate(shuffled, target, maxInputs)
+}
+
+/**
+ * A UTXO's outpoint, as txid.outputIndex
+ */
+export const outpointOf = (utxo: { txid: string, outputIndex: number }): string =>
+  `${utxo.txid}.${utxo.outputIndex}`
+
+/**
+ * Leave out the UTXOs whose outpoints are excluded, e.g. ones already spent
+ * by a transaction the overlay has not seen yet
+ */
+export function excludeOutpoints<T extends { txid: string, outputIndex: number }>(
+  utxos: T[],
+  excluded: Set<string>
+): T[] {
+  return utxos.filter(utxo => !excluded.has(outpointOf(utxo)))
+}
+
+export const COIN_SELECTORS: Record<CoinSelectionStrategy, CoinSelector> = {
+  'largest-first': largestFirst,
+  'smallest-first': smallestFirst,
+  'exact-match': exactMatch,
+  random
+}
+
+/**
+ * Select token UTXOs to cover a target amount.
+ * Throws if the UTXOs cannot cover it within maxInputs.
+ */
+export function selectTokenUTXOs<T extends SelectableUTXO>(
+  utxos: T[],
+  target: bigint,
+  strategy: CoinSelectionStrategy = 'largest-first',
+  maxInputs = 10
+): CoinSelection<T> {
+  const selector = COIN_SELECTORS[strategy]
+  if (!selector) {
+    throw new Error(`Unknown coin selection strategy: ${strategy}`)
+  }
+
+  const available = utxos.reduce((sum, utxo) => sum + amountOf(utxo), 0n)
+  if (available < target) {
+    throw new Error(`Insufficient balance. Available: ${available}, Requested: ${target}`)
+  }
+
+  const selected = selector(utxos, target, maxInputs)
+  if (!selected) {
+    throw new Error(`Cannot cover ${target} tokens with at most ${maxInputs} inputs using ${strategy} selection`)
+  }
+
+  const total = selected.reduce((sum, utxo) => sum + amountOf(utxo), 0n)
+  return { selected, total, change: total - target }
+}
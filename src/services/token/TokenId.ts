@@ -0,0 +1,31 @@
+import { Hash, Utils } from '@bsv/sdk'
+
+/**
+ * Placeholder tokenId declared by mint outputs.
+ *
+ * A mint cannot contain its own tokenId, because the id is derived from the
+ * txid of the transaction the output lives in. Mints declare this value
+ * instead and it is resolved to the real id from the output's outpoint.
+ */
+export const GENESIS_TOKEN_ID = '0000000000000000000000000000000000000000000000000000000000000000'
+
+/**
+ * Derive the tokenId for a genesis outpoint: SHA-256(txid || vout),
+ * with the txid in its usual hex byte order and vout as a 4-byte little-endian integer.
+ */
+export function deriveTokenId(txid: string, outputIndex: number): string {
+  const writer = new Utils.Writer()
+  writer.write(Utils.toArray(txid, 'hex'))
+  writer.writeUInt32LE(outputIndex)
+  return Utils.toHex(Hash.sha256(writer.toArray()))
+}
+
+/**
+ * Resolve the tokenId declared in an output to the token it belongs to.
+ * Mint outputs resolve to the id derived from their own outpoint.
+ */
+export function resolveTokenId(declaredTokenId: string, txid: string, outputIndex: number): string {
+  return declaredTokenId === GENESIS_TOKEN_ID
+    ? deriveTokenId(txid, outputIndex)
+    : declaredTokenId
+}
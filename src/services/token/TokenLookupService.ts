@@ -2,68 +2,123 @@ import {
   LookupService,
   LookupFormula,
   LookupQuestion,
-  OutputAdmittedByTopic
+  AdmissionMode,
+  SpendNotificationMode,
+  OutputAdmittedByTopic,
+  OutputSpent
 } from '@bsv/overlay'
 import { Db } from 'mongodb'
-import { Transaction, PushDrop, Utils } from '@bsv/sdk'
+import { randomBytes } from 'crypto'
+import { Transaction, Utils } from '@bsv/sdk'
 import TokenStorageManager from './TokenStorageManager.js'
+import { resolveTokenId } from './TokenId.js'
+import {
+  decodeBurnScript,
+  decodeMintAuthorityScript,
+  decodeTokenScript,
+  resolveAuthorityTokenId
+} from './TokenOutput.js'
+import { pageOptionsFrom } from './TokenPagination.js'
+import { Logger, createLogger } from '../logging/Logger.js'
+import TokenMetrics from '../metrics/TokenMetrics.js'
+
+/**
+ * Query types answered by lookup(). Anything else is counted as 'unknown' so
+ * a client cannot mint new metric series.
+ */
+const QUERY_TYPES = [
+  'balance', 'history', 'utxos', 'genesis', 'authority'
+]
+
+/**
+ * Lookup answers are plain arrays, so a page's nextCursor rides on its last
+ * item - both as a field and as that item's context, which the engine keeps
+ * when it hydrates results into an output list
+ */
+function withNextCursor<T extends object>(items: T[], nextCursor?: string): T[] {
+  if (nextCursor && items.length > 0) {
+    Object.assign(items[items.length - 1], {
+      nextCursor,
+      context: Utils.toArray(nextCursor, 'utf8')
+    })
+  }
+  return items
+}
 
 /**
- * TokenLookupService provides query capabilities for token data
+ * TokenLookupService provides query capabilities for token data.
+ *
+ * Log lines of an admission, spend or eviction carry the outpoint, and
+ * those of a lookup its query type and a lookupId. Lookups, spends,
+ * evictions and storage failures are counted in the metrics, when given.
  */
 class TokenLookupService implements LookupService {
-  admissionMode = 'output-script' as any
-  spendNotificationMode = 'all' as any
+  // Whole-tx admission delivers the BEEF that outputAdmittedByTopic decodes
+  admissionMode: AdmissionMode = 'whole-tx'
+  // Script-mode spend notifications carry the spending txid and input index
+  spendNotificationMode: SpendNotificationMode = 'script'
 
-  constructor(public storageManager: TokenStorageManager) {}
+  constructor(
+    public storageManager: TokenStorageManager,
+    private readonly metrics?: TokenMetrics,
+    private readonly logger: Logger = createLogger('lookup')
+  ) {}
 
   /**
    * Called when a new token output is admitted to the overlay
    */
   async outputAdmittedByTopic(payload: any): Promise<void> {
+    let log = this.logger
     try {
       const tx = (payload as any).beef ? Transaction.fromBEEF((payload as any).beef) :
                   (payload as any).atomicBEEF ? Transaction.fromBEEF((payload as any).atomicBEEF) : null
 
       if (!tx) {
-        console.error('No transaction data in payload')
+        this.logger.error('No transaction data in payload', { outputIndex: payload.outputIndex })
         return
       }
 
       const output = tx.outputs[payload.outputIndex]
       const txid = (payload as any).txid || tx.id('hex') as string
+      log = this.logger.child({ txid, outputIndex: payload.outputIndex })
 
-      // Decode token data (PushDrop format)
-      const result = PushDrop.decode({
-        script: output.lockingScript.toHex(),
-        fieldFormat: 'buffer'
-      } as any)
-
-      // Field 0: lockingKey (who can spend)
-      // Field 1: protocol ('TOKEN')
-      // Field 2: tokenId
-      // Field 3: amount
-      // Field 4: ownerKey (who owns)
-      // Field 5: metadata (optional)
-
-      const tokenId = Utils.toHex(result.fields[2] as number[])
-      const amountBuffer = result.fields[3] as number[]
-      const amount = this.parseAmount(amountBuffer)
-
-      // Parse owner (field 4)
-      const ownerKey = result.fields.length >= 5 ? Utils.toHex(result.fields[4] as number[]) : undefined
-
-      // Parse metadata if present (field 5)
-      let metadata = undefined
-      if (result.fields.length >= 6) {
-        try {
-          const metadataStr = Utils.toUTF8(result.fields[5] as number[])
-          metadata = JSON.parse(metadataStr)
-        } catch {
-          // Ignore invalid metadata
-        }
+      // Burn records are kept alongside outputs so supply and history see them
+      const burn = decodeBurnScript(output.lockingScript)
+      if (burn) {
+        await this.storageManager.storeBurn(
+          txid,
+          payload.outputIndex,
+          burn.tokenId,
+          burn.amount,
+          output.lockingScript.toHex(),
+          output.satoshis || 0
+        )
+        log.info('Token burned', { tokenId: burn.tokenId, amount: burn.amount })
+        return
+      }
+
+      // Mint authorities are tracked separately and move the registered supply
+      const authority = decodeMintAuthorityScript(output.lockingScript)
+      if (authority) {
+        const tokenId = resolveAuthorityTokenId(authority.tokenId, tx, txid)
+        await this.storageManager.storeAuthority(
+          txid,
+          payload.outputIndex,
+          tokenId,
+          authority,
+          output.lockingScript.toHex(),
+          output.satoshis || 0
+        )
+        log.info('Mint authority admitted', { tokenId, totalMinted: authority.totalMinted })
+        return
       }
 
+      // Decode token data (PushDrop format, shared token field layout)
+      const { tokenId: declaredTokenId, amount, ownerKey, metadata } = decodeTokenScript(output.lockingScript)
+
+      // Mint outputs declare the zero tokenId, resolved from their outpoint
+      const tokenId = resolveTokenId(declaredTokenId, txid, payload.outputIndex)
+
       // Store in database
       await this.storageManager.storeToken(
         txid,
@@ -76,26 +131,28 @@ class TokenLookupService implements LookupService {
         ownerKey
       )
 
-      console.log(`✓ Token admitted: ${tokenId} amount=${amount}`)
+      log.info('Token admitted', { tokenId, amount })
 
     } catch (error) {
-      console.error('Error processing admitted output:', error)
+      log.error('Error processing admitted output', { error })
+      this.metrics?.storageError('admit')
     }
   }
 
   /**
    * Called when a token output is spent
    */
-  async outputSpent(payload: {
-    txid: string
-    outputIndex: number
-    topic: string
-  }): Promise<void> {
+  async outputSpent(payload: OutputSpent): Promise<void> {
+    const log = this.logger.child({ txid: payload.txid, outputIndex: payload.outputIndex })
     try {
-      await this.storageManager.markAsSpent(payload.txid, payload.outputIndex)
-      console.log(`✓ Token spent: ${payload.txid}:${payload.outputIndex}`)
+      const spendingTxid = 'spendingTxid' in payload ? payload.spendingTxid : undefined
+      const inputIndex = 'inputIndex' in payload ? payload.inputIndex : undefined
+      await this.storageManager.markAsSpent(payload.txid, payload.outputIndex, spendingTxid, inputIndex)
+      log.info('Token spent', { spendingTxid, inputIndex })
+      this.metrics?.outputSpent()
     } catch (error) {
-      console.error('Error marking output as spent:', error)
+      log.error('Error marking output as spent', { error })
+      this.metrics?.storageError('spend')
     }
   }
 
@@ -103,11 +160,14 @@ class TokenLookupService implements LookupService {
    * Called when a token output is evicted from the overlay
    */
   async outputEvicted(txid: string, outputIndex: number): Promise<void> {
+    const log = this.logger.child({ txid, outputIndex })
     try {
       await this.storageManager.deleteToken(txid, outputIndex)
-      console.log(`✓ Token evicted: ${txid}:${outputIndex}`)
+      log.info('Token evicted')
+      this.metrics?.outputEvicted()
     } catch (error) {
-      console.error('Error deleting evicted output:', error)
+      log.error('Error deleting evicted output', { error })
+      this.metrics?.storageError('evict')
     }
   }
 
@@ -116,94 +176,161 @@ class TokenLookupService implements LookupService {
    */
   async lookup(question: LookupQuestion): Promise<LookupFormula | any> {
     const { query } = question as any
+    const log = this.logger.child({ query: query?.type, lookupId: randomBytes(4).toString('hex') })
+    log.debug('Lookup received', { tokenId: query?.tokenId, ownerKey: query?.ownerKey })
+    const done = this.metrics?.startLookup(QUERY_TYPES.includes(query?.type) ? query.type : 'unknown')
 
     try {
-      switch (query.type) {
-        case 'balance': {
-          // Query: { type: 'balance', tokenId: '...' }
-          const balance = await this.storageManager.getBalance(query.tokenId)
-          // Return array of UTXO objects
-          return balance.utxos.map(utxo => ({
-            txid: utxo.txid,
-            outputIndex: utxo.outputIndex,
-            amount: utxo.amount,
-            tokenId: balance.tokenId,
-            name: balance.name,
-            symbol: balance.symbol,
-            decimals: balance.decimals
-          })) as any
-        }
-
-        case 'balances': {
-          // Query: { type: 'balances' }
-          const balances = await this.storageManager.getAllBalances()
-          console.log('📊 [LOOKUP] getAllBalances returned:', balances.length, 'tokens')
-          // Return array of balance objects
-          const result = balances.map(b => ({
-            tokenId: b.tokenId,
-            name: b.name,
-            symbol: b.symbol,
-            decimals: b.decimals,
-            totalAmount: b.totalAmount,
-            utxoCount: b.utxos.length
-          }))
-          console.log('📊 [LOOKUP] Returning:', result)
-          return result as any
-        }
-
-        case 'history': {
-          // Query: { type: 'history', tokenId: '...', limit?: number }
-          const history = await this.storageManager.getHistory(
-            query.tokenId,
-            query.limit
-          )
-          // Return array of transaction records
-          return history.map(h => ({
-            txid: h.txid,
-            outputIndex: h.outputIndex,
-            tokenId: h.tokenId,
-            amount: h.amount,
-            spent: h.spent,
-            createdAt: h.createdAt.toISOString()
-          })) as any
-        }
-
-        case 'utxos': {
-          // Query: { type: 'utxos', tokenId: '...' }
-          const records = await this.storageManager.findUnspentByTokenId(query.tokenId)
-          // Return array of UTXO objects
-          return records.map(r => ({
-            txid: r.txid,
-            outputIndex: r.outputIndex,
-            amount: r.amount,
-            lockingScript: r.lockingScript,
-            satoshis: r.satoshis
-          })) as any
-        }
-
-        default:
-          throw new Error(`Unknown query type: ${(query as any).type}`)
-      }
+      const answer = await this.answer(query)
+      log.debug('Lookup answered', { results: Array.isArray(answer) ? answer.length : undefined })
+      done?.('ok')
+      return answer
     } catch (error) {
-      console.error('Lookup error:', error)
+      log.warn('Lookup failed', { error })
+      done?.('error')
       return [] as any
     }
   }
 
   /**
-   * Parse 8-byte buffer to integer (little-endian)
+   * Answer one query, throwing on an unknown or malformed one
    */
-  private parseAmount(buffer: number[]): number {
-    let amount = 0
-    for (let i = 0; i < 8; i++) {
-      amount += buffer[i] * Math.pow(256, i)
+  private async answer(query: any): Promise<any> {
+    // Every query type can be scoped to a single owner's identity key
+    if (query.ownerKey !== undefined && typeof query.ownerKey !== 'string') {
+      throw new Error('ownerKey must be a hex string')
+    }
+    const ownerKey: string | undefined = query.ownerKey
+    // ...and paged with { cursor?, pageSize?, order? }
+    const page = pageOptionsFrom(query)
+
+    switch (query.type) {
+      case 'balance': {
+        // Query: { type: 'balance', tokenId: '...', ownerKey?: '...' }
+        const balance = await this.storageManager.getBalance(query.tokenId, ownerKey, page)
+        // Return array of UTXO objects
+        return withNextCursor((balance.utxos ?? []).map(utxo => ({
+          txid: utxo.txid,
+          outputIndex: utxo.outputIndex,
+          amount: utxo.amount.toString(),
+          tokenId: balance.tokenId,
+          name: balance.name,
+          symbol: balance.symbol,
+          decimals: balance.decimals
+        })), balance.nextCursor) as any
+      }
+
+      case 'history': {
+        // Query: { type: 'history', tokenId: '...', ownerKey?: '...' }
+        const history = await this.storageManager.getHistory(query.tokenId, ownerKey, page)
+        // Return array of transaction records
+        return withNextCursor(history.items.map(h => ({
+          txid: h.txid,
+          outputIndex: h.outputIndex,
+          tokenId: h.tokenId,
+          amount: h.amount.toString(),
+          ownerKey: h.ownerKey,
+          spent: h.spent,
+          burn: h.burn ?? false,
+          createdAt: h.createdAt.toISOString()
+        })), history.nextCursor) as any
+      }
+
+      case 'utxos': {
+        // Query: { type: 'utxos', tokenId: '...', ownerKey?: '...' }
+        const records = await this.storageManager.findUnspentByTokenId(query.tokenId, ownerKey, page)
+        // Return array of UTXO objects
+        return withNextCursor(records.items.map(r => ({
+          txid: r.txid,
+          outputIndex: r.outputIndex,
+          amount: r.amount.toString(),
+          lockingScript: r.lockingScript,
+          satoshis: r.satoshis,
+          ownerKey: r.ownerKey
+        })), records.nextCursor) as any
+      }
+
+      case 'genesis': {
+        // Query: { type: 'genesis', tokenId: '...' } (at most one result, never paged)
+        const genesis = await this.storageManager.getGenesis(query.tokenId)
+        if (!genesis) {
+          return [] as any
+        }
+        // Return the mint outpoint the tokenId was derived from
+        return [{
+          tokenId: genesis.tokenId,
+          txid: genesis.txid,
+          outputIndex: genesis.outputIndex,
+          amount: genesis.amount.toString(),
+          metadata: genesis.metadata,
+          ownerKey: genesis.ownerKey,
+          createdAt: genesis.createdAt.toISOString()
+        }] as any
+      }
+
+      case 'authority': {
+        // Query: { type: 'authority', tokenId: '...' } (at most one result, never paged)
+        const authority = await this.storageManager.getMintAuthority(query.tokenId)
+        if (!authority) {
+          return [] as any
+        }
+        // The outpoint lets the engine return the authority with its BEEF
+        return [{
+          tokenId: authority.tokenId,
+          txid: authority.txid,
+          outputIndex: authority.outputIndex,
+          issuerKey: authority.issuerKey,
+          maxSupply: authority.maxSupply?.toString(),
+          totalMinted: authority.totalMinted.toString()
+        }] as any
+      }
+
+      default:
+        throw new Error(`Unknown query type: ${(query as any).type}`)
     }
-    return amount
   }
 
   async getDocumentation(): Promise<string> {
     return `# Token Lookup Service
 
+Token amounts are unsigned 64-bit integers and are returned as decimal
+strings (e.g. \`"amount": "18446744073709551615"\`) so no precision is lost.
+
+## Owner Scoping
+The \`balance\`, \`utxos\` and \`history\` queries accept an
+optional \`ownerKey\` (33-byte identity key in hex). When given, only that
+owner's outputs are returned, so a wallet can discover its own spendable
+outputs (with their BEEF) through the standard \`/lookup\` endpoint.
+
+## Pagination
+Every query except \`genesis\` and \`authority\` (which have at most one
+result) is paged.
+Add any of:
+- \`pageSize\`: 1-1000, default 100
+- \`order\`: \`"asc"\` or \`"desc"\` (history defaults to newest first,
+  everything else to oldest first)
+- \`cursor\`: the \`nextCursor\` from the previous page
+
+When more results exist, the last item of a page carries \`nextCursor\`
+(also as its \`context\` bytes, so it survives output-list hydration).
+Ordering is stable, so outputs admitted between pages are never repeated.
+
+## REST-only Data
+The engine rebuilds every lookup result from its \`txid\` and
+\`outputIndex\` and drops whatever is not an output, so data that is not
+an output is served by the overlay's REST API instead:
+- \`GET /tokens?prefix=...\`: registered tokens, by symbol or name prefix
+- \`GET /tokens/:tokenId\`: a token's registry entry
+- \`GET /token-balances?ownerKey=...\`: balances per token
+- \`GET /token-transfers/:tokenId?ownerKey=...\`: transfers reconstructed
+  from spends (inputs, outputs and the net change per owner key)
+- \`GET /token-supply/:tokenId\`: minted, burned, unaccounted and
+  circulating supply, with holder and UTXO counts
+- \`GET /token-holders/:tokenId?pageSize=10\`: holders by balance, largest first
+- \`GET /token-distribution/:tokenId\`: holders bucketed by UTXO count
+- \`GET /token-validations/:txid\`: why the outputs of a submitted
+  transaction were or were not admitted
+
 ## Query Types
 
 ### Balance Query
@@ -211,25 +338,39 @@ Get balance for a specific token:
 \`\`\`json
 {
   "type": "balance",
-  "tokenId": "a1b2c3d4..."
+  "tokenId": "a1b2c3d4...",
+  "ownerKey": "02ea3bcf..."
 }
 \`\`\`
 
-### All Balances Query
-Get all token balances:
+### History Query
+Get transaction history for a token. Burn records appear with \`burn: true\`:
 \`\`\`json
 {
-  "type": "balances"
+  "type": "history",
+  "tokenId": "a1b2c3d4...",
+  "ownerKey": "02ea3bcf...",
+  "pageSize": 50
 }
 \`\`\`
 
-### History Query
-Get transaction history for a token:
+### Genesis Query
+Resolve a tokenId back to the mint output it was derived from
+(\`tokenId = SHA-256(txid || vout)\`):
 \`\`\`json
 {
-  "type": "history",
-  "tokenId": "a1b2c3d4...",
-  "limit": 50
+  "type": "genesis",
+  "tokenId": "a1b2c3d4..."
+}
+\`\`\`
+
+### Authority Query
+Find the unspent mint authority of a mintable token, with its issuer key,
+cap and running \`totalMinted\`. Returns nothing once minting is renounced:
+\`\`\`json
+{
+  "type": "authority",
+  "tokenId": "a1b2c3d4..."
 }
 \`\`\`
 
@@ -238,7 +379,8 @@ Get unspent outputs for a token:
 \`\`\`json
 {
   "type": "utxos",
-  "tokenId": "a1b2c3d4..."
+  "tokenId": "a1b2c3d4...",
+  "ownerKey": "02ea3bcf..."
 }
 \`\`\`
 `
@@ -256,7 +398,7 @@ Get unspent outputs for a token:
 /**
  * Factory function to create TokenLookupService with MongoDB
  */
-export default (db: Db): TokenLookupService => {
+export default (db: Db, metrics?: TokenMetrics): TokenLookupService => {
   const storageManager = new TokenStorageManager(db)
-  return new TokenLookupService(storageManager)
+  return new TokenLookupService(storageManager, metrics)
 }
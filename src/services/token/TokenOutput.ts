@@ -0,0 +1,455 @@
+import {
+  LockingScript,
+  Script,
+  OP,
+  PushDrop,
+  ProtoWallet,
+  Utils,
+  BigNumber,
+  Transaction,
+  WalletInterface,
+  WalletProtocol
+} from '@bsv/sdk'
+import { GENESIS_TOKEN_ID, deriveTokenId } from './TokenId.js'
+
+/**
+ * Protocol tag carried in the first field of every token output
+ */
+export const TOKEN_PROTOCOL = 'TOKEN'
+
+/**
+ * Field layout version written by encodeTokenFields
+ */
+export const TOKEN_LAYOUT_VERSION = 1
+
+/**
+ * Largest amount an 8-byte unsigned field can carry
+ */
+export const MAX_TOKEN_AMOUNT = 2n ** 64n - 1n
+
+/**
+ * Protocol tag carried in the first field of a mint authority output
+ */
+export const MINT_AUTHORITY_PROTOCOL = 'TOKEN-AUTHORITY'
+
+/**
+ * Tag that marks an OP_RETURN output as a token burn record
+ */
+export const TOKEN_BURN_TAG = 'BURN'
+
+/**
+ * An owner's identity key: a 33-byte compressed public key in hex
+ */
+export const IDENTITY_KEY_PATTERN = /^0[23][0-9a-fA-F]{64}$/
+
+/**
+ * BRC-42 protocol and key ID that token locking keys are derived under
+ */
+export const TOKEN_PROTOCOL_ID: WalletProtocol = [0, 'workshop tokens']
+export const TOKEN_KEY_ID = '1'
+
+/**
+ * A token output as carried in the PushDrop fields of a locking script
+ */
+export interface TokenOutput {
+  version: number
+  tokenId: string
+  amount: bigint
+  ownerKey?: string  // Identity key of token owner
+  metadata?: any
+}
+
+/**
+ * An explicit burn of token units, carried in an unspendable OP_RETURN output
+ */
+export interface TokenBurn {
+  tokenId: string
+  amount: bigint
+}
+
+/**
+ * The issuer's right to mint more of a token, carried in a PushDrop output
+ * locked to the issuer. Each re-mint spends it and re-creates it with the
+ * running total of units ever minted.
+ */
+export interface MintAuthority {
+  version: number
+  tokenId: string
+  issuerKey: string
+  maxSupply?: bigint  // Cap on totalMinted; absent when uncapped
+  totalMinted: bigint
+}
+
+/**
+ * A token, mint authority or burn field that does not decode. field names
+ * the offending field ('protocol', 'version', 'tokenId', 'amount', ...).
+ */
+export class TokenFieldError extends Error {
+  constructor(
+    readonly field: string,
+    message: string,
+    readonly expected?: string,
+    readonly actual?: string
+  ) {
+    super(message)
+    this.name = 'TokenFieldError'
+  }
+}
+
+/**
+ * Encode a token output as PushDrop fields using the current layout.
+ *
+ * Layout v1:
+ *   [0] protocol  'TOKEN' (UTF-8)
+ *   [1] version   1 byte
+ *   [2] tokenId   32 bytes
+ *   [3] amount    8 bytes, little-endian
+ *   [4] ownerKey  33-byte compressed public key, or empty
+ *   [5] metadata  JSON (UTF-8), or empty
+ *
+ * PushDrop appends its signature after these fields when requested.
+ */
+export function encodeTokenFields(output: Omit<TokenOutput, 'version'>): number[][] {
+  return [
+    Utils.toArray(TOKEN_PROTOCOL, 'utf8'),
+    [TOKEN_LAYOUT_VERSION],
+    Utils.toArray(output.tokenId, 'hex'),
+    writeAmount(output.amount),
+    output.ownerKey ? Utils.toArray(output.ownerKey, 'hex') : [],
+    output.metadata ? Utils.toArray(JSON.stringify(output.metadata), 'utf8') : []
+  ]
+}
+
+/**
+ * Decode the PushDrop fields of a token output.
+ *
+ * Accepts the current layout and the unversioned v0 layout written by the
+ * original mint CLI ('TOKEN', tokenId, amount, metadata). Any fields after
+ * the layout (such as the PushDrop signature) are ignored.
+ * Throws if the fields are not a valid token output.
+ */
+export function decodeTokenFields(fields: number[][]): TokenOutput {
+  if (fields.length < 2 || Utils.toUTF8(fields[0]) !== TOKEN_PROTOCOL) {
+    throw new TokenFieldError('protocol', `field[0] is not '${TOKEN_PROTOCOL}'`, TOKEN_PROTOCOL)
+  }
+
+  // v0 has no version field: the tokenId follows the protocol directly
+  if (fields[1].length === 32) {
+    if (fields.length < 4) {
+      throw new TokenFieldError('fields', `insufficient fields for layout v0 (need 4, got ${fields.length})`, '4', String(fields.length))
+    }
+    return {
+      version: 0,
+      tokenId: Utils.toHex(fields[1]),
+      amount: readAmount(fields[2]),
+      metadata: readMetadata(fields[3])
+    }
+  }
+
+  const version = fields[1].length === 1 ? fields[1][0] : undefined
+  if (version !== 1) {
+    throw new TokenFieldError('version', `unsupported token layout version (got ${Utils.toHex(fields[1])})`, String(TOKEN_LAYOUT_VERSION), Utils.toHex(fields[1]))
+  }
+
+  if (fields.length < 6) {
+    throw new TokenFieldError('fields', `insufficient fields for layout v1 (need 6, got ${fields.length})`, '6', String(fields.length))
+  }
+
+  if (fields[2].length !== 32) {
+    throw new TokenFieldError('tokenId', `tokenId must be 32 bytes (got ${fields[2].length})`, '32 bytes', `${fields[2].length} bytes`)
+  }
+
+  return {
+    version,
+    tokenId: Utils.toHex(fields[2]),
+    amount: readAmount(fields[3]),
+    ownerKey: readOwnerKey(fields[4]),
+    metadata: readMetadata(fields[5])
+  }
+}
+
+/**
+ * Decode a token output from a PushDrop locking script
+ */
+export function decodeTokenScript(lockingScript: LockingScript): TokenOutput {
+  const { fields } = PushDrop.decode(lockingScript)
+  return decodeTokenFields(fields)
+}
+
+/**
+ * Encode a mint authority as PushDrop fields.
+ *
+ * Layout v1:
+ *   [0] protocol     'TOKEN-AUTHORITY' (UTF-8)
+ *   [1] version      1 byte
+ *   [2] tokenId      32 bytes (zero bytes at genesis, see resolveAuthorityTokenId)
+ *   [3] issuerKey    33-byte compressed public key
+ *   [4] maxSupply    8 bytes, little-endian (0 when uncapped)
+ *   [5] totalMinted  8 bytes, little-endian
+ */
+export function encodeMintAuthorityFields(authority: Omit<MintAuthority, 'version'>): number[][] {
+  return [
+    Utils.toArray(MINT_AUTHORITY_PROTOCOL, 'utf8'),
+    [TOKEN_LAYOUT_VERSION],
+    Utils.toArray(authority.tokenId, 'hex'),
+    Utils.toArray(authority.issuerKey, 'hex'),
+    writeAmount(authority.maxSupply ?? 0n),
+    writeAmount(authority.totalMinted)
+  ]
+}
+
+/**
+ * Decode the PushDrop fields of a mint authority output.
+ * Throws if the fields are not a valid mint authority.
+ */
+export function decodeMintAuthorityFields(fields: number[][]): MintAuthority {
+  if (fields.length < 2 || Utils.toUTF8(fields[0]) !== MINT_AUTHORITY_PROTOCOL) {
+    throw new TokenFieldError('protocol', `field[0] is not '${MINT_AUTHORITY_PROTOCOL}'`, MINT_AUTHORITY_PROTOCOL)
+  }
+  if (fields[1].length !== 1 || fields[1][0] !== TOKEN_LAYOUT_VERSION) {
+    throw new TokenFieldError('version', `unsupported mint authority version (got ${Utils.toHex(fields[1])})`, String(TOKEN_LAYOUT_VERSION), Utils.toHex(fields[1]))
+  }
+  if (fields.length < 6) {
+    throw new TokenFieldError('fields', `insufficient fields for mint authority (need 6, got ${fields.length})`, '6', String(fields.length))
+  }
+  if (fields[2].length !== 32) {
+    throw new TokenFieldError('tokenId', `tokenId must be 32 bytes (got ${fields[2].length})`, '32 bytes', `${fields[2].length} bytes`)
+  }
+  if (fields[3].length !== 33) {
+    throw new TokenFieldError('issuerKey', `issuerKey must be 33 bytes (got ${fields[3].length})`, '33 bytes', `${fields[3].length} bytes`)
+  }
+
+  const maxSupply = readAmount(fields[4], 'maxSupply')
+  return {
+    version: TOKEN_LAYOUT_VERSION,
+    tokenId: Utils.toHex(fields[2]),
+    issuerKey: Utils.toHex(fields[3]),
+    maxSupply: maxSupply === 0n ? undefined : maxSupply,
+    totalMinted: readAmount(fields[5], 'totalMinted')
+  }
+}
+
+/**
+ * Decode a mint authority from a PushDrop locking script.
+ * Returns undefined if the script is not a mint authority at all, and
+ * throws if it is one but is malformed.
+ */
+export function decodeMintAuthorityScript(lockingScript: LockingScript): MintAuthority | undefined {
+  let fields: number[][]
+  try {
+    fields = PushDrop.decode(lockingScript).fields
+  } catch {
+    return undefined
+  }
+  if (fields.length === 0 || Utils.toUTF8(fields[0]) !== MINT_AUTHORITY_PROTOCOL) {
+    return undefined
+  }
+  return decodeMintAuthorityFields(fields)
+}
+
+/**
+ * Resolve the tokenId a mint authority refers to. An authority created at
+ * genesis declares the zero tokenId, meaning the token minted by the single
+ * genesis output (declaring the zero tokenId) of the same transaction.
+ * Throws if that output cannot be identified.
+ */
+export function resolveAuthorityTokenId(declared: string, tx: Transaction, txid: string): string {
+  if (declared !== GENESIS_TOKEN_ID) {
+    return declared
+  }
+  const geneses = tx.outputs.flatMap((output, i) => {
+    try {
+      return decodeTokenScript(output.lockingScript).tokenId === GENESIS_TOKEN_ID ? [i] : []
+    } catch {
+      return []
+    }
+  })
+  if (geneses.length !== 1) {
+    throw new Error(`mint authority declares the genesis tokenId but its transaction has ${geneses.length} genesis outputs`)
+  }
+  return deriveTokenId(txid, geneses[0])
+}
+
+/**
+ * Create the burn record for a token: an unspendable output that destroys
+ * `amount` units of the tokens spent by its transaction.
+ *
+ * Layout:
+ *   OP_FALSE OP_RETURN <'TOKEN'> <version> <'BURN'> <tokenId 32 bytes> <amount 8 bytes LE>
+ */
+export function createBurnScript(burn: TokenBurn): LockingScript {
+  const payload = new Script()
+    .writeBin(Utils.toArray(TOKEN_PROTOCOL, 'utf8'))
+    .writeBin([TOKEN_LAYOUT_VERSION])
+    .writeBin(Utils.toArray(TOKEN_BURN_TAG, 'utf8'))
+    .writeBin(Utils.toArray(burn.tokenId, 'hex'))
+    .writeBin(writeAmount(burn.amount))
+
+  return new LockingScript([
+    { op: OP.OP_FALSE },
+    { op: OP.OP_RETURN, data: payload.toBinary() }
+  ])
+}
+
+/**
+ * Decode a burn record created by createBurnScript.
+ * Returns undefined if the script is not a token burn record at all, and
+ * throws if it is one but is malformed.
+ */
+export function decodeBurnScript(lockingScript: LockingScript): TokenBurn | undefined {
+  // Re-parse so everything after OP_RETURN is one data chunk, however the
+  // script was built
+  const chunks = LockingScript.fromBinary(lockingScript.toBinary()).chunks
+  if (chunks.length !== 2 || chunks[0].op !== OP.OP_FALSE || chunks[1].op !== OP.OP_RETURN || !chunks[1].data) {
+    return undefined
+  }
+
+  let fields: number[][]
+  try {
+    fields = Script.fromBinary(chunks[1].data).chunks.map(chunk => chunk.data ?? [])
+  } catch {
+    return undefined
+  }
+  if (fields.length < 3 || Utils.toUTF8(fields[0]) !== TOKEN_PROTOCOL || Utils.toUTF8(fields[2]) !== TOKEN_BURN_TAG) {
+    return undefined
+  }
+
+  if (fields[1].length !== 1 || fields[1][0] !== TOKEN_LAYOUT_VERSION) {
+    throw new TokenFieldError('version', `unsupported burn record version (got ${Utils.toHex(fields[1])})`, String(TOKEN_LAYOUT_VERSION), Utils.toHex(fields[1]))
+  }
+  if (fields.length < 5) {
+    throw new TokenFieldError('fields', `insufficient fields for burn record (need 5, got ${fields.length})`, '5', String(fields.length))
+  }
+  if (fields[3].length !== 32) {
+    throw new TokenFieldError('tokenId', `tokenId must be 32 bytes (got ${fields[3].length})`, '32 bytes', `${fields[3].length} bytes`)
+  }
+
+  return {
+    tokenId: Utils.toHex(fields[3]),
+    amount: readAmount(fields[4])
+  }
+}
+
+/**
+ * Create the PushDrop locking script for a token output.
+ *
+ * The locking key is derived from the owner's identity key with the 'anyone'
+ * counterparty, so any sender can lock tokens to an owner knowing only their
+ * identity key, and the owner can always re-derive the key to spend them
+ * (see unlockTokenOutput).
+ */
+export async function lockTokenOutput(
+  output: Omit<TokenOutput, 'version'> & { ownerKey: string }
+): Promise<LockingScript> {
+  return await lockForOwner(encodeTokenFields(output), output.ownerKey)
+}
+
+/**
+ * Create the PushDrop locking script for a mint authority, spendable by the
+ * issuer's identity key in the same way as a token output
+ */
+export async function lockMintAuthority(authority: Omit<MintAuthority, 'version'>): Promise<LockingScript> {
+  return await lockForOwner(encodeMintAuthorityFields(authority), authority.issuerKey)
+}
+
+async function lockForOwner(fields: number[][], ownerKey: string): Promise<LockingScript> {
+  // PushDrop.lock only needs the key derivation ProtoWallet provides
+  const pushDrop = new PushDrop(new ProtoWallet('anyone') as unknown as WalletInterface)
+  return await pushDrop.lock(
+    fields,
+    TOKEN_PROTOCOL_ID,
+    TOKEN_KEY_ID,
+    ownerKey,
+    false,
+    false
+  )
+}
+
+/**
+ * Unlocking script template for a token output (or mint authority) owned by
+ * the wallet's identity key and locked with lockTokenOutput/lockMintAuthority
+ */
+export function unlockTokenOutput(
+  wallet: Pick<WalletInterface, 'getPublicKey' | 'createSignature'>,
+  originator: string | undefined,
+  satoshis: number,
+  lockingScript: LockingScript
+): ReturnType<PushDrop['unlock']> {
+  // PushDrop.unlock only needs the wallet's key derivation and signatures
+  return new PushDrop(wallet as WalletInterface, originator).unlock(
+    TOKEN_PROTOCOL_ID,
+    TOKEN_KEY_ID,
+    'anyone',
+    'all',
+    false,
+    satoshis,
+    lockingScript
+  )
+}
+
+/**
+ * PushDrop turns empty fields into OP_0, which decodes back as [0]
+ */
+function isEmptyField(field: number[]): boolean {
+  return field.length === 0 || (field.length === 1 && field[0] === 0)
+}
+
+function writeAmount(amount: bigint): number[] {
+  if (amount < 0n || amount > MAX_TOKEN_AMOUNT) {
+    throw new Error(`amount out of range (got ${amount})`)
+  }
+  const writer = new Utils.Writer()
+  writer.writeUInt64LEBn(new BigNumber(amount.toString()))
+  return writer.toArray()
+}
+
+function readAmount(field: number[], name = 'amount'): bigint {
+  if (field.length !== 8) {
+    throw new TokenFieldError(name, `${name} must be 8 bytes (got ${field.length})`, '8 bytes', `${field.length} bytes`)
+  }
+  return BigInt(new Utils.Reader(field).readUInt64LEBn().toString())
+}
+
+/**
+ * Parse a token amount given as a bigint, an integer number or a decimal
+ * string (the form amounts take in JSON). Returns undefined if it is not a
+ * whole number within the uint64 range.
+ */
+export function parseTokenAmount(value: unknown): bigint | undefined {
+  let amount: bigint
+  try {
+    if (typeof value === 'bigint') {
+      amount = value
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      amount = BigInt(value)
+    } else if (typeof value === 'string' && /^\d+$/.test(value)) {
+      amount = BigInt(value)
+    } else {
+      return undefined
+    }
+  } catch {
+    return undefined
+  }
+  return amount >= 0n && amount <= MAX_TOKEN_AMOUNT ? amount : undefined
+}
+
+function readOwnerKey(field: number[]): string | undefined {
+  if (isEmptyField(field)) {
+    return undefined
+  }
+  if (field.length !== 33) {
+    throw new TokenFieldError('ownerKey', `ownerKey must be 33 bytes (got ${field.length})`, '33 bytes', `${field.length} bytes`)
+  }
+  return Utils.toHex(field)
+}
+
+function readMetadata(field: number[]): any {
+  if (isEmptyField(field)) {
+    return undefined
+  }
+  try {
+    return JSON.parse(Utils.toUTF8(field))
+  } catch {
+    throw new TokenFieldError('metadata', 'metadata is not valid JSON', 'JSON')
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Cursor-based pagination shared by TokenStorageManager, the lookup service
+ * and the REST router.
+ *
+ * Cursors are opaque to callers: base64url-encoded JSON holding the sort key
+ * of the last item returned, plus the sort order it was issued for. A page
+ * resumes strictly after that key, so results stay stable while new outputs
+ * are admitted.
+ */
+
+export type SortOrder = 'asc' | 'desc'
+
+export interface PageOptions {
+  cursor?: string
+  pageSize?: number
+  order?: SortOrder
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor?: string  // Absent on the last page
+}
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 1000
+
+/**
+ * Validated page options with defaults applied
+ */
+export interface ResolvedPage<K> {
+  after?: K
+  pageSize: number
+  order: SortOrder
+}
+
+export function encodeCursor<K>(key: K, order: SortOrder): string {
+  return Buffer.from(JSON.stringify({ k: key, o: order })).toString('base64url')
+}
+
+/**
+ * Apply defaults and decode the cursor. Throws if the page size is out of
+ * range or the cursor is malformed or was issued for the other sort order.
+ */
+export function resolvePage<K>(options: PageOptions = {}, defaultOrder: SortOrder = 'asc'): ResolvedPage<K> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  if (!Number.isSafeInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new Error(`pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+  }
+
+  const order = options.order ?? defaultOrder
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be "asc" or "desc"')
+  }
+
+  if (options.cursor === undefined) {
+    return { pageSize, order }
+  }
+
+  let decoded: any
+  try {
+    decoded = JSON.parse(Buffer.from(options.cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('Invalid pagination cursor')
+  }
+  if (!decoded || decoded.k === undefined || decoded.o !== order) {
+    throw new Error('Invalid pagination cursor')
+  }
+  return { after: decoded.k as K, pageSize, order }
+}
+
+/**
+ * Build a page from up to pageSize + 1 fetched items: the extra item only
+ * signals that another page exists.
+ */
+export function toPage<T, K>(
+  fetched: T[],
+  page: ResolvedPage<K>,
+  keyOf: (item: T) => K
+): Page<T> {
+  const items = fetched.slice(0, page.pageSize)
+  return {
+    items,
+    nextCursor: fetched.length > page.pageSize
+      ? encodeCursor(keyOf(items[items.length - 1]), page.order)
+      : undefined
+  }
+}
+
+/**
+ * Read page options from a lookup query or REST query string
+ */
+export function pageOptionsFrom(source: any): PageOptions {
+  const pageSize = source?.pageSize
+  return {
+    cursor: source?.cursor,
+    pageSize: typeof pageSize === 'string' && /^\d+$/.test(pageSize) ? Number(pageSize) : pageSize,
+    order: source?.order
+  }
+}
@@ -0,0 +1,311 @@
+import express, { Request, Response, NextFunction, Router } from 'express'
+import { STEAK, Transaction, Utils } from '@bsv/sdk'
+import TokenStorageManager, { TokenRecord, TokenRegistryEntry, TokenTransfer } from './TokenStorageManager.js'
+import { PageOptions, pageOptionsFrom, resolvePage } from './TokenPagination.js'
+import { TOKEN_REJECTION_CODES, TokenRejectionCode, toValidationJson } from './TokenValidation.js'
+import { IDENTITY_KEY_PATTERN } from './TokenOutput.js'
+import { createLogger } from '../logging/Logger.js'
+import { ApiError, HEX_32_BYTES, apiErrorHandler, handle, requireTxid } from '../http/HttpApi.js'
+
+function requireTokenId(value: unknown): string {
+  if (typeof value !== 'string' || !HEX_32_BYTES.test(value)) {
+    throw new ApiError(400, 'ERR_INVALID_TOKEN_ID', 'tokenId must be 32 bytes of hex')
+  }
+  return value.toLowerCase()
+}
+
+function optionalOwnerKey(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'string' || !IDENTITY_KEY_PATTERN.test(value)) {
+    throw new ApiError(400, 'ERR_INVALID_OWNER_KEY', 'ownerKey must be a 33-byte compressed public key in hex')
+  }
+  return value.toLowerCase()
+}
+
+function optionalRejectionCode(value: unknown): TokenRejectionCode | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'string' || !TOKEN_REJECTION_CODES.includes(value as TokenRejectionCode)) {
+    throw new ApiError(400, 'ERR_INVALID_CODE', `code must be one of ${TOKEN_REJECTION_CODES.join(', ')}`)
+  }
+  return value as TokenRejectionCode
+}
+
+/**
+ * Admin routes take the overlay's admin token as a Bearer token
+ */
+const requireAdmin = (adminToken: string) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization !== `Bearer ${adminToken}`) {
+      next(new ApiError(401, 'ERR_UNAUTHORIZED', 'admin routes need Authorization: Bearer <admin token>'))
+      return
+    }
+    next()
+  }
+
+function parseInteger(value: unknown, name: string, min: number, max: number): number {
+  const parsed = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN
+  if (!Number.isSafeInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(400, `ERR_INVALID_${name.toUpperCase()}`, `${name} must be an integer between ${min} and ${max}`)
+  }
+  return parsed
+}
+
+/**
+ * Read ?cursor=&pageSize=&order= and reject bad values up front as 400s
+ */
+function parsePage(query: Request['query']): PageOptions {
+  const options = pageOptionsFrom(query)
+  try {
+    resolvePage(options)
+  } catch (error) {
+    throw new ApiError(400, 'ERR_INVALID_PAGE', error instanceof Error ? error.message : String(error))
+  }
+  return options
+}
+
+function parseBEEF(value: unknown): number[] {
+  if (typeof value === 'string' && /^([0-9a-fA-F]{2})+$/.test(value)) {
+    return Utils.toArray(value, 'hex')
+  }
+  if (Array.isArray(value) && value.every(b => Number.isInteger(b) && b >= 0 && b <= 255)) {
+    return value
+  }
+  throw new ApiError(400, 'ERR_INVALID_BEEF', 'beef must be a hex string or an array of bytes')
+}
+
+/**
+ * JSON form of a token output (amounts as decimal strings)
+ */
+function toTokenOutputJson(record: TokenRecord) {
+  return {
+    txid: record.txid,
+    outputIndex: record.outputIndex,
+    tokenId: record.tokenId,
+    amount: record.amount.toString(),
+    ownerKey: record.ownerKey,
+    lockingScript: record.lockingScript,
+    satoshis: record.satoshis,
+    spent: record.spent,
+    burn: record.burn ?? false,
+    createdAt: record.createdAt.toISOString()
+  }
+}
+
+/**
+ * JSON form of a token registry entry
+ */
+function toTokenJson(token: TokenRegistryEntry) {
+  return {
+    ...token,
+    maxSupply: token.maxSupply?.toString(),
+    totalMinted: token.totalMinted.toString(),
+    createdAt: token.createdAt.toISOString()
+  }
+}
+
+/**
+ * JSON form of a reconstructed transfer (amounts as decimal strings)
+ */
+function toTokenTransferJson(transfer: TokenTransfer) {
+  return {
+    ...transfer,
+    timestamp: transfer.timestamp.toISOString(),
+    burned: transfer.burned.toString(),
+    inputs: transfer.inputs.map(i => ({ ...i, amount: i.amount.toString() })),
+    outputs: transfer.outputs.map(o => ({ ...o, amount: o.amount.toString() })),
+    amountIn: transfer.amountIn.toString(),
+    amountOut: transfer.amountOut.toString(),
+    net: Object.fromEntries(
+      Object.entries(transfer.net).map(([key, amount]) => [key, amount.toString()])
+    )
+  }
+}
+
+/**
+ * Create the REST router for token data, mounted on the overlay's express app.
+ *
+ * Routes:
+ *   GET  /token-balances?ownerKey=             balances, optionally for one owner
+ *   GET  /token-utxos/:tokenId?ownerKey=       unspent outputs of a token
+ *   GET  /token-outputs/:txid/:outputIndex     a single token output
+ *   GET  /token-history/:tokenId?ownerKey=     outputs of a token, newest first
+ *   GET  /token-transfers/:tokenId?ownerKey=   transfers of a token, newest first
+ *   GET  /token-supply/:tokenId                minted/burned/circulating supply
+ *   GET  /token-holders/:tokenId               holders by balance, largest first
+ *   GET  /token-distribution/:tokenId          holders bucketed by UTXO count
+ *   GET  /tokens?prefix=                       registry search by symbol/name prefix
+ *   GET  /tokens/:tokenId                      a token's registry entry
+ *   GET  /tokens/:tokenId/authority            a mintable token's unspent mint authority
+ *   GET  /token-validations/:txid              why outputs of a transaction were (not) admitted
+ *   POST /submit-token { beef }                submit a transaction to tm_tokens
+ *
+ * With an adminToken (sent as Authorization: Bearer <adminToken>):
+ *   GET  /admin/token-rejections?tokenId=&code=   transactions with rejected token outputs
+ *
+ * List routes are paged with ?cursor=&pageSize=&order= and answer
+ * { items, nextCursor }, where nextCursor is absent on the last page.
+ * Errors are returned as { error, code } with a 4xx/5xx status.
+ */
+export default function createTokenRouter(
+  storageManager: TokenStorageManager,
+  submit: (beef: number[]) => Promise<STEAK>,
+  adminToken?: string
+): Router {
+  const router = express.Router()
+  const logger = createLogger('token-api')
+
+  router.get('/token-balances', handle(async (req, res) => {
+    const ownerKey = optionalOwnerKey(req.query.ownerKey)
+    const balances = await storageManager.getAllBalances(ownerKey, parsePage(req.query))
+    res.json({
+      items: balances.items.map(b => ({
+        tokenId: b.tokenId,
+        name: b.name,
+        symbol: b.symbol,
+        decimals: b.decimals,
+        totalAmount: b.totalAmount.toString(),
+        utxoCount: b.utxoCount
+      })),
+      nextCursor: balances.nextCursor
+    })
+  }))
+
+  router.get('/token-utxos/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const ownerKey = optionalOwnerKey(req.query.ownerKey)
+    const records = await storageManager.findUnspentByTokenId(tokenId, ownerKey, parsePage(req.query))
+    res.json({ items: records.items.map(toTokenOutputJson), nextCursor: records.nextCursor })
+  }))
+
+  router.get('/token-outputs/:txid/:outputIndex', handle(async (req, res) => {
+    const txid = requireTxid(req.params.txid)
+    const outputIndex = parseInteger(req.params.outputIndex, 'outputIndex', 0, 0xffffffff)
+    const record = await storageManager.findToken(txid, outputIndex)
+    if (!record) {
+      throw new ApiError(404, 'ERR_TOKEN_OUTPUT_NOT_FOUND', `No token output at ${txid}.${outputIndex}`)
+    }
+    res.json(toTokenOutputJson(record))
+  }))
+
+  router.get('/token-history/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const ownerKey = optionalOwnerKey(req.query.ownerKey)
+    const history = await storageManager.getHistory(tokenId, ownerKey, parsePage(req.query))
+    res.json({ items: history.items.map(toTokenOutputJson), nextCursor: history.nextCursor })
+  }))
+
+  router.get('/token-transfers/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const ownerKey = optionalOwnerKey(req.query.ownerKey)
+    const transfers = await storageManager.getTransfers(tokenId, ownerKey, parsePage(req.query))
+    res.json({ items: transfers.items.map(toTokenTransferJson), nextCursor: transfers.nextCursor })
+  }))
+
+  router.get('/token-supply/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const supply = await storageManager.getSupply(tokenId)
+    res.json({
+      ...supply,
+      minted: supply.minted.toString(),
+      burned: supply.burned.toString(),
+      unaccounted: supply.unaccounted.toString(),
+      circulating: supply.circulating.toString(),
+      maxSupply: supply.maxSupply?.toString()
+    })
+  }))
+
+  router.get('/token-holders/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const holders = await storageManager.getHolders(tokenId, parsePage(req.query))
+    res.json({
+      items: holders.items.map(h => ({ ...h, amount: h.amount.toString() })),
+      nextCursor: holders.nextCursor
+    })
+  }))
+
+  router.get('/token-distribution/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    res.json(await storageManager.getUtxoDistribution(tokenId))
+  }))
+
+  router.get('/tokens', handle(async (req, res) => {
+    const prefix = req.query.prefix
+    if (prefix !== undefined && typeof prefix !== 'string') {
+      throw new ApiError(400, 'ERR_INVALID_PREFIX', 'prefix must be a string')
+    }
+    const tokens = await storageManager.searchTokens(prefix, parsePage(req.query))
+    res.json({ items: tokens.items.map(toTokenJson), nextCursor: tokens.nextCursor })
+  }))
+
+  router.get('/tokens/:tokenId', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const token = await storageManager.getToken(tokenId)
+    if (!token) {
+      throw new ApiError(404, 'ERR_TOKEN_NOT_FOUND', `No registered token ${tokenId}`)
+    }
+    res.json(toTokenJson(token))
+  }))
+
+  router.get('/tokens/:tokenId/authority', handle(async (req, res) => {
+    const tokenId = requireTokenId(req.params.tokenId)
+    const authority = await storageManager.getMintAuthority(tokenId)
+    if (!authority) {
+      throw new ApiError(404, 'ERR_AUTHORITY_NOT_FOUND', `Token ${tokenId} has no unspent mint authority`)
+    }
+    res.json({
+      ...authority,
+      maxSupply: authority.maxSupply?.toString(),
+      totalMinted: authority.totalMinted.toString(),
+      createdAt: authority.createdAt.toISOString(),
+      spentAt: authority.spentAt?.toISOString()
+    })
+  }))
+
+  router.get('/token-validations/:txid', handle(async (req, res) => {
+    const txid = requireTxid(req.params.txid)
+    const validation = await storageManager.getValidation(txid)
+    if (!validation) {
+      throw new ApiError(404, 'ERR_VALIDATION_NOT_FOUND', `Transaction ${txid} has not been validated`)
+    }
+    res.json(toValidationJson(validation))
+  }))
+
+  if (adminToken) {
+    router.get('/admin/token-rejections', requireAdmin(adminToken), handle(async (req, res) => {
+      const tokenId = req.query.tokenId === undefined ? undefined : requireTokenId(req.query.tokenId)
+      const code = optionalRejectionCode(req.query.code)
+      const validations = await storageManager.listRejections({ tokenId, code }, parsePage(req.query))
+      res.json({ items: validations.items.map(toValidationJson), nextCursor: validations.nextCursor })
+    }))
+  }
+
+  router.post('/submit-token', express.json({ limit: '10mb' }), handle(async (req, res) => {
+    const beef = parseBEEF(req.body?.beef)
+
+    let txid: string
+    try {
+      txid = Transaction.fromBEEF(beef).id('hex')
+    } catch (error) {
+      throw new ApiError(400, 'ERR_INVALID_BEEF', `beef could not be parsed: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const steak = await submit(beef)
+    const admitted = steak.tm_tokens?.outputsToAdmit ?? []
+    const validation = await storageManager.getValidation(txid)
+    res.json({
+      txid,
+      tokensFound: admitted.length,
+      outputsToAdmit: admitted,
+      rejections: validation?.rejections ?? []
+    })
+  }))
+
+  // Consistent JSON error bodies for everything above
+  router.use(apiErrorHandler(logger, 'Token API error'))
+
+  return router
+}
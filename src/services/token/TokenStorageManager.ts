@@ -1,17 +1,26 @@
-import { Db, Collection } from 'mongodb'
-import { Transaction, PushDrop, Utils } from '@bsv/sdk'
+import { Db, Collection, Decimal128, Document, Filter, ObjectId, WithId } from 'mongodb'
+import { deriveTokenId } from './TokenId.js'
+import { Page, PageOptions, SortOrder, resolvePage, toPage } from './TokenPagination.js'
+import { MintAuthority, parseTokenAmount } from './TokenOutput.js'
+import { TokenRejectionCode, TokenValidationResult } from './TokenValidation.js'
+import { Logger, createLogger } from '../logging/Logger.js'
 
 export interface TokenRecord {
   txid: string
   outputIndex: number
   tokenId: string
-  amount: number
+  amount: bigint
   metadata?: any
   lockingScript: string
   satoshis: number
   createdAt: Date
   spent: boolean
   ownerKey?: string  // Identity key of token owner
+  genesis?: boolean  // True for the mint output the tokenId was derived from
+  spendingTxid?: string  // Transaction that consumed this output
+  spendingInputIndex?: number  // Input of spendingTxid that consumed it
+  spentAt?: Date
+  burn?: boolean  // Unspendable burn record; amount is the number of units destroyed
 }
 
 export interface TokenBalance {
@@ -19,26 +28,253 @@ export interface TokenBalance {
   name?: string
   symbol?: string
   decimals?: number
-  totalAmount: number
-  utxos: Array<{
+  totalAmount: bigint
+  utxoCount: number
+  // One page of unspent outputs (getBalance only)
+  utxos?: Array<{
     txid: string
     outputIndex: number
-    amount: number
+    amount: bigint
   }>
+  nextCursor?: string  // Cursor for the next page of utxos
+}
+
+/**
+ * Canonical definition of a token, recorded once when its genesis output is
+ * admitted. Later outputs carry no metadata of their own that counts, but
+ * totalMinted follows the token's mint authority as it re-mints.
+ */
+export interface TokenRegistryEntry {
+  tokenId: string
+  genesisTxid: string
+  genesisOutputIndex: number
+  issuerKey?: string  // Owner of the genesis output
+  name: string
+  symbol: string
+  decimals: number
+  mintable: boolean  // Created with a mint authority
+  maxSupply?: bigint  // Fixed supply, or the mint cap; absent when uncapped
+  totalMinted: bigint  // Units minted so far, genesis included
+  description?: string
+  icon?: string  // Icon URL from the genesis metadata
+  createdAt: Date
+}
+
+/**
+ * The unspent mint authority output of a mintable token
+ */
+export interface MintAuthorityRecord {
+  txid: string
+  outputIndex: number
+  tokenId: string
+  issuerKey: string
+  maxSupply?: bigint
+  totalMinted: bigint
+  lockingScript: string
+  satoshis: number
+  createdAt: Date
+  spent: boolean
+  spendingTxid?: string
+  spentAt?: Date
+}
+
+/**
+ * Supply figures for one token. circulating is the sum of its unspent
+ * outputs and burned the sum of its burn records; whatever was minted but
+ * is in neither is unaccounted.
+ */
+export interface TokenSupply {
+  tokenId: string
+  minted: bigint
+  burned: bigint  // Destroyed by explicit burn records
+  unaccounted: bigint  // Spent without being re-created or burned
+  circulating: bigint
+  maxSupply?: bigint
+  holderCount: number
+  utxoCount: number
+}
+
+export interface TokenHolder {
+  ownerKey: string
+  amount: bigint
+  utxoCount: number
+}
+
+/**
+ * Holders grouped by how many unspent outputs they have. max is absent
+ * for the open-ended last bucket.
+ */
+export interface UtxoCountBucket {
+  min: number
+  max?: number
+  holders: number
+  utxos: number
+}
+
+/**
+ * Lower bounds of the UTXO count distribution buckets
+ */
+const UTXO_COUNT_BUCKETS = [1, 2, 5, 10, 50, 100]
+
+/**
+ * One token movement: the outputs a transaction consumed and the outputs it
+ * created for a single tokenId. Net amounts are per owner key (received
+ * minus sent), so change returned to a sender is netted against what they spent.
+ */
+export interface TokenTransfer {
+  txid: string
+  tokenId: string
+  kind: 'mint' | 'transfer' | 'burn'
+  timestamp: Date
+  burned: bigint  // Units destroyed by burn records in this transaction
+  inputs: Array<{
+    txid: string
+    outputIndex: number
+    inputIndex?: number
+    amount: bigint
+    ownerKey?: string
+  }>
+  outputs: Array<{
+    outputIndex: number
+    amount: bigint
+    ownerKey?: string
+  }>
+  senders: string[]
+  recipients: string[]
+  amountIn: bigint
+  amountOut: bigint
+  net: Record<string, bigint>
+}
+
+/**
+ * Stored form of a TokenRecord. Amounts are kept as Decimal128 so the full
+ * uint64 range survives storage and can still be summed by MongoDB.
+ */
+type TokenDocument = Omit<TokenRecord, 'amount'> & { amount: Decimal128 }
+
+function toDecimal128(amount: bigint): Decimal128 {
+  return Decimal128.fromString(amount.toString())
+}
+
+function toRecord({ _id, ...doc }: WithId<TokenDocument>): TokenRecord {
+  return { ...doc, amount: BigInt(doc.amount.toString()) }
+}
+
+/**
+ * Stored form of a TokenRegistryEntry, with lower-cased name and symbol for
+ * case-insensitive prefix search
+ */
+type RegistryDocument = Omit<TokenRegistryEntry, 'mintable' | 'maxSupply' | 'totalMinted'> & {
+  mintable?: boolean
+  maxSupply?: Decimal128
+  totalMinted?: Decimal128
+  nameKey: string
+  symbolKey: string
+}
+
+function toRegistryEntry({ _id, nameKey, symbolKey, ...doc }: WithId<RegistryDocument>): TokenRegistryEntry {
+  const maxSupply = doc.maxSupply ? BigInt(doc.maxSupply.toString()) : undefined
+  return {
+    ...doc,
+    // Entries registered before mint authorities existed are fixed-supply
+    mintable: doc.mintable ?? false,
+    maxSupply,
+    totalMinted: doc.totalMinted ? BigInt(doc.totalMinted.toString()) : maxSupply ?? 0n
+  }
+}
+
+type AuthorityDocument = Omit<MintAuthorityRecord, 'maxSupply' | 'totalMinted'> & {
+  maxSupply?: Decimal128
+  totalMinted: Decimal128
+}
+
+function toAuthorityRecord({ _id, ...doc }: WithId<AuthorityDocument>): MintAuthorityRecord {
+  return {
+    ...doc,
+    maxSupply: doc.maxSupply ? BigInt(doc.maxSupply.toString()) : undefined,
+    totalMinted: BigInt(doc.totalMinted.toString())
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Materialized unspent balance of one owner for one token, kept in step with
+ * the tokens collection by storeToken/markAsSpent/deleteToken. ownerKey is
+ * null for outputs that carry no owner.
+ */
+interface BalanceDocument {
+  tokenId: string
+  ownerKey: string | null
+  amount: Decimal128
+  utxoCount: number
+  updatedAt: Date
+}
+
+/**
+ * A materialized balance that disagreed with the tokens collection when
+ * rebuilt. `expected` is recomputed from unspent outputs, `actual` is what
+ * the balances collection held (zero when the row was missing).
+ */
+export interface BalanceDrift {
+  tokenId: string
+  ownerKey: string | null
+  expected: { amount: bigint, utxoCount: number }
+  actual: { amount: bigint, utxoCount: number }
+}
+
+/**
+ * Which validation results listRejections returns
+ */
+export interface RejectionFilter {
+  tokenId?: string
+  code?: TokenRejectionCode
+}
+
+type ValidationDocument = TokenValidationResult
+
+/**
+ * Aggregation grouping unspent outputs into per-owner balances
+ */
+function balancePipeline(match: Filter<TokenDocument> = {}): Document[] {
+  return [
+    { $match: { ...match, spent: false } },
+    {
+      $group: {
+        _id: { tokenId: '$tokenId', ownerKey: { $ifNull: ['$ownerKey', null] } },
+        amount: { $sum: '$amount' },
+        utxoCount: { $sum: 1 }
+      }
+    }
+  ]
 }
 
 /**
  * TokenStorageManager handles MongoDB operations for token data
  */
 export default class TokenStorageManager {
-  private readonly collection: Collection<TokenRecord>
+  private readonly collection: Collection<TokenDocument>
+  private readonly balances: Collection<BalanceDocument>
+  private readonly registry: Collection<RegistryDocument>
+  private readonly authorities: Collection<AuthorityDocument>
+  private readonly validations: Collection<ValidationDocument>
 
-  constructor(private readonly db: Db) {
-    console.log('🗄️ [STORAGE] Initializing TokenStorageManager')
-    console.log('🗄️ [STORAGE] Database name:', db.databaseName)
-    this.collection = db.collection<TokenRecord>('tokens')
-    console.log('🗄️ [STORAGE] Collection: tokens')
-    this.ensureIndexes()
+  constructor(
+    private readonly db: Db,
+    private readonly logger: Logger = createLogger('storage')
+  ) {
+    this.collection = db.collection<TokenDocument>('tokens')
+    this.balances = db.collection<BalanceDocument>('balances')
+    this.registry = db.collection<RegistryDocument>('registry')
+    this.authorities = db.collection<AuthorityDocument>('authorities')
+    this.validations = db.collection<ValidationDocument>('validations')
+    this.logger.info('Token storage initialized', {
+      database: db.databaseName,
+      collections: ['tokens', 'balances', 'registry', 'authorities', 'validations']
+    })
+    this.ensureIndexes().catch(error => this.logger.error('Error creating indexes', { error }))
   }
 
   private async ensureIndexes() {
@@ -47,6 +283,47 @@ export default class TokenStorageManager {
     await this.collection.createIndex({ tokenId: 1, spent: 1 })
     await this.collection.createIndex({ spent: 1 })
     await this.collection.createIndex({ ownerKey: 1, spent: 1 })
+    await this.collection.createIndex({ tokenId: 1, ownerKey: 1, spent: 1 })
+    await this.collection.createIndex({ tokenId: 1, genesis: 1 })
+    await this.collection.createIndex({ spendingTxid: 1 })
+    await this.collection.createIndex({ spent: 1, tokenId: 1 })
+    await this.collection.createIndex({ tokenId: 1, burn: 1 })
+    await this.collection.createIndex({ ownerKey: 1, spent: 1, tokenId: 1 })
+    await this.balances.createIndex({ tokenId: 1, ownerKey: 1 }, { unique: true })
+    await this.balances.createIndex({ ownerKey: 1, tokenId: 1 })
+    await this.balances.createIndex({ tokenId: 1, amount: -1, ownerKey: -1 })
+    await this.registry.createIndex({ tokenId: 1 }, { unique: true })
+    await this.registry.createIndex({ symbolKey: 1 })
+    await this.registry.createIndex({ nameKey: 1 })
+    await this.authorities.createIndex({ txid: 1, outputIndex: 1 }, { unique: true })
+    await this.authorities.createIndex({ tokenId: 1, spent: 1 })
+    await this.validations.createIndex({ txid: 1 }, { unique: true })
+    await this.validations.createIndex({ 'rejections.code': 1 })
+    await this.validations.createIndex({ 'rejections.tokenId': 1 })
+  }
+
+  /**
+   * Apply a change to one owner's materialized balance, dropping rows that
+   * no longer hold any outputs
+   */
+  private async adjustBalance(
+    tokenId: string,
+    ownerKey: string | undefined,
+    amount: bigint,
+    utxoCount: number
+  ): Promise<void> {
+    const key = { tokenId, ownerKey: ownerKey ?? null }
+    await this.balances.updateOne(
+      key,
+      {
+        $inc: { amount: toDecimal128(amount), utxoCount },
+        $set: { updatedAt: new Date() }
+      },
+      { upsert: true }
+    )
+    if (utxoCount < 0) {
+      await this.balances.deleteOne({ ...key, utxoCount: { $lte: 0 } })
+    }
   }
 
   /**
@@ -56,46 +333,218 @@ export default class TokenStorageManager {
     txid: string,
     outputIndex: number,
     tokenId: string,
-    amount: number,
+    amount: bigint,
     metadata: any,
     lockingScript: string,
     satoshis: number,
     ownerKey?: string
   ): Promise<void> {
-    // If metadata is not provided, try to inherit from an existing token with same tokenId
-    let finalMetadata = metadata
-    if (!metadata || !metadata.name) {
-      const existingToken = await this.collection.findOne({
-        tokenId,
-        metadata: { $exists: true, $ne: null }
-      })
-      if (existingToken && existingToken.metadata) {
-        finalMetadata = existingToken.metadata
-        console.log(`🔄 [STORAGE] Inherited metadata for token ${tokenId}: ${existingToken.metadata.name}`)
-      }
+    const genesis = deriveTokenId(txid, outputIndex) === tokenId
+    const createdAt = new Date()
+
+    await this.collection.insertOne({
+      txid,
+      outputIndex,
+      tokenId,
+      amount: toDecimal128(amount),
+      metadata,
+      lockingScript,
+      satoshis,
+      createdAt,
+      spent: false,
+      ownerKey,
+      genesis
+    })
+    await this.adjustBalance(tokenId, ownerKey, amount, 1)
+
+    if (genesis) {
+      await this.registerToken({ txid, outputIndex, tokenId, amount, metadata, ownerKey, createdAt })
     }
+  }
 
+  /**
+   * Store a burn record. It is unspendable, so it is stored as spent and
+   * never counts towards a balance.
+   */
+  async storeBurn(
+    txid: string,
+    outputIndex: number,
+    tokenId: string,
+    amount: bigint,
+    lockingScript: string,
+    satoshis: number
+  ): Promise<void> {
     await this.collection.insertOne({
       txid,
       outputIndex,
       tokenId,
-      amount,
-      metadata: finalMetadata,
+      amount: toDecimal128(amount),
       lockingScript,
       satoshis,
       createdAt: new Date(),
-      spent: false,
-      ownerKey
+      spent: true,
+      burn: true
     })
   }
 
   /**
-   * Mark a token output as spent
+   * Store a mint authority output and advance the token's registered
+   * totalMinted to the total it carries
    */
-  async markAsSpent(txid: string, outputIndex: number): Promise<void> {
-    await this.collection.updateOne(
-      { txid, outputIndex },
-      { $set: { spent: true } }
+  async storeAuthority(
+    txid: string,
+    outputIndex: number,
+    tokenId: string,
+    authority: MintAuthority,
+    lockingScript: string,
+    satoshis: number
+  ): Promise<void> {
+    const totalMinted = toDecimal128(authority.totalMinted)
+    await this.authorities.insertOne({
+      txid,
+      outputIndex,
+      tokenId,
+      issuerKey: authority.issuerKey,
+      maxSupply: authority.maxSupply === undefined ? undefined : toDecimal128(authority.maxSupply),
+      totalMinted,
+      lockingScript,
+      satoshis,
+      createdAt: new Date(),
+      spent: false
+    })
+    // $max keeps the figure right whichever of the genesis output and its
+    // authority is stored first
+    await this.registry.updateOne({ tokenId }, { $max: { totalMinted } })
+  }
+
+  /**
+   * Find the unspent mint authority of a token, if it still has one
+   */
+  async getMintAuthority(tokenId: string): Promise<MintAuthorityRecord | null> {
+    const doc = await this.authorities.findOne({ tokenId, spent: false })
+    return doc ? toAuthorityRecord(doc) : null
+  }
+
+  /**
+   * Record a token's definition from its genesis output. The first
+   * registration wins; later calls for the same tokenId change nothing.
+   */
+  private async registerToken(
+    genesis: Pick<TokenRecord, 'txid' | 'outputIndex' | 'tokenId' | 'amount' | 'metadata' | 'ownerKey' | 'createdAt'>
+  ): Promise<void> {
+    const metadata = genesis.metadata || {}
+    const name = String(metadata.name ?? '')
+    const symbol = String(metadata.symbol ?? '')
+    const mintable = metadata.mintable === true
+    // A fixed supply is its own cap; a mintable token is capped only if it says so
+    const maxSupply = parseTokenAmount(metadata.maxSupply) ??
+      (mintable ? undefined : parseTokenAmount(metadata.totalSupply) ?? genesis.amount)
+
+    await this.registry.updateOne(
+      { tokenId: genesis.tokenId },
+      {
+        $setOnInsert: {
+          tokenId: genesis.tokenId,
+          genesisTxid: genesis.txid,
+          genesisOutputIndex: genesis.outputIndex,
+          issuerKey: genesis.ownerKey,
+          name,
+          symbol,
+          decimals: Number.isInteger(metadata.decimals) ? metadata.decimals : 0,
+          mintable,
+          maxSupply: maxSupply === undefined ? undefined : toDecimal128(maxSupply),
+          description: typeof metadata.description === 'string' ? metadata.description : undefined,
+          icon: typeof metadata.icon === 'string' ? metadata.icon : undefined,
+          createdAt: genesis.createdAt,
+          nameKey: name.toLowerCase(),
+          symbolKey: symbol.toLowerCase()
+        },
+        $max: { totalMinted: toDecimal128(genesis.amount) }
+      },
+      { upsert: true }
+    )
+  }
+
+  /**
+   * Register every genesis output that has no registry entry yet, for
+   * databases indexed before the registry existed. Returns how many were added.
+   */
+  async registerExistingTokens(): Promise<number> {
+    let registered = 0
+    for await (const doc of this.collection.find({ genesis: true })) {
+      if (await this.registry.countDocuments({ tokenId: doc.tokenId }, { limit: 1 }) === 0) {
+        await this.registerToken(toRecord(doc))
+        registered++
+      }
+    }
+    return registered
+  }
+
+  /**
+   * Look up a token's registry entry
+   */
+  async getToken(tokenId: string): Promise<TokenRegistryEntry | null> {
+    const doc = await this.registry.findOne({ tokenId })
+    return doc ? toRegistryEntry(doc) : null
+  }
+
+  /**
+   * Search the registry by case-insensitive symbol or name prefix, one page
+   * at a time (ordered by tokenId). Without a prefix every token is listed.
+   */
+  async searchTokens(prefix?: string, options?: PageOptions): Promise<Page<TokenRegistryEntry>> {
+    const page = resolvePage<string>(options, 'asc')
+    const query: Filter<RegistryDocument> = {}
+    if (prefix) {
+      const pattern = new RegExp(`^${escapeRegex(prefix.toLowerCase())}`)
+      query.$or = [{ symbolKey: pattern }, { nameKey: pattern }]
+    }
+    if (page.after !== undefined) {
+      if (typeof page.after !== 'string') {
+        throw new Error('Invalid pagination cursor')
+      }
+      query.tokenId = { [page.order === 'asc' ? '$gt' : '$lt']: page.after }
+    }
+
+    const docs = await this.registry
+      .find(query)
+      .sort({ tokenId: page.order === 'asc' ? 1 : -1 })
+      .limit(page.pageSize + 1)
+      .toArray()
+    return toPage(docs.map(toRegistryEntry), page, t => t.tokenId)
+  }
+
+  /**
+   * Mark a token output as spent, recording which transaction input consumed it
+   */
+  async markAsSpent(
+    txid: string,
+    outputIndex: number,
+    spendingTxid?: string,
+    spendingInputIndex?: number
+  ): Promise<void> {
+    // Only the unspent -> spent transition moves the balance, so repeated
+    // spend notifications are harmless
+    const spent = await this.collection.findOneAndUpdate(
+      { txid, outputIndex, spent: false },
+      {
+        $set: {
+          spent: true,
+          spendingTxid,
+          spendingInputIndex,
+          spentAt: new Date()
+        }
+      }
+    )
+    if (spent) {
+      await this.adjustBalance(spent.tokenId, spent.ownerKey, -BigInt(spent.amount.toString()), -1)
+      return
+    }
+
+    // Not a token output, so it may be a mint authority
+    await this.authorities.updateOne(
+      { txid, outputIndex, spent: false },
+      { $set: { spent: true, spendingTxid, spentAt: new Date() } }
     )
   }
 
@@ -103,108 +552,534 @@ export default class TokenStorageManager {
    * Delete a token output (when evicted)
    */
   async deleteToken(txid: string, outputIndex: number): Promise<void> {
-    await this.collection.deleteOne({ txid, outputIndex })
+    const deleted = await this.collection.findOneAndDelete({ txid, outputIndex })
+    if (deleted && !deleted.spent) {
+      await this.adjustBalance(deleted.tokenId, deleted.ownerKey, -BigInt(deleted.amount.toString()), -1)
+    }
+    if (!deleted) {
+      await this.authorities.deleteOne({ txid, outputIndex })
+    }
   }
 
   /**
-   * Find all unspent tokens for a specific tokenId
+   * Fetch one page of token records ordered by insertion (_id), which is
+   * unique and therefore a stable sort key
    */
-  async findUnspentByTokenId(tokenId: string): Promise<TokenRecord[]> {
-    return await this.collection
-      .find({ tokenId, spent: false })
+  private async findPage(
+    query: Filter<TokenDocument>,
+    options: PageOptions | undefined,
+    defaultOrder: SortOrder
+  ): Promise<Page<TokenRecord>> {
+    const page = resolvePage<string>(options, defaultOrder)
+    const filter: Filter<TokenDocument> = { ...query }
+    if (page.after !== undefined) {
+      if (typeof page.after !== 'string' || !ObjectId.isValid(page.after)) {
+        throw new Error('Invalid pagination cursor')
+      }
+      filter._id = { [page.order === 'asc' ? '$gt' : '$lt']: new ObjectId(page.after) }
+    }
+
+    const docs = await this.collection
+      .find(filter)
+      .sort({ _id: page.order === 'asc' ? 1 : -1 })
+      .limit(page.pageSize + 1)
       .toArray()
+    const { items, nextCursor } = toPage(docs, page, doc => doc._id.toHexString())
+    return { items: items.map(toRecord), nextCursor }
+  }
+
+  /**
+   * Find unspent tokens for a specific tokenId, one page at a time
+   * @param ownerKey Optional filter by owner's identity key
+   */
+  async findUnspentByTokenId(
+    tokenId: string,
+    ownerKey?: string,
+    page?: PageOptions
+  ): Promise<Page<TokenRecord>> {
+    const query: Filter<TokenDocument> = { tokenId, spent: false }
+    if (ownerKey) {
+      query.ownerKey = ownerKey
+    }
+    return await this.findPage(query, page, 'asc')
   }
 
   /**
-   * Get balance for a specific tokenId
+   * Get balance for a specific tokenId. The total and UTXO count come from
+   * the materialized balances; `utxos` holds one page of the outputs.
+   * @param ownerKey Optional filter by owner's identity key
    */
-  async getBalance(tokenId: string): Promise<TokenBalance> {
-    const records = await this.findUnspentByTokenId(tokenId)
+  async getBalance(tokenId: string, ownerKey?: string, page?: PageOptions): Promise<TokenBalance> {
+    const match: Filter<BalanceDocument> = { tokenId, utxoCount: { $gt: 0 } }
+    if (ownerKey) {
+      match.ownerKey = ownerKey
+    }
+
+    const [totals] = await this.balances.aggregate<{ amount: Decimal128, utxoCount: number }>([
+      { $match: match },
+      { $group: { _id: null, amount: { $sum: '$amount' }, utxoCount: { $sum: '$utxoCount' } } }
+    ]).toArray()
 
-    const totalAmount = records.reduce((sum, record) => sum + record.amount, 0)
+    const token = await this.getToken(tokenId)
 
-    // Get metadata from first record
-    const metadata = records[0]?.metadata || {}
+    const query: Filter<TokenDocument> = { tokenId, spent: false }
+    if (ownerKey) {
+      query.ownerKey = ownerKey
+    }
+    const { items, nextCursor } = await this.findPage(query, page, 'asc')
 
     return {
       tokenId,
-      name: metadata.name,
-      symbol: metadata.symbol,
-      decimals: metadata.decimals || 0,
-      totalAmount,
-      utxos: records.map(r => ({
+      name: token?.name,
+      symbol: token?.symbol,
+      decimals: token?.decimals ?? 0,
+      totalAmount: totals ? BigInt(totals.amount.toString()) : 0n,
+      utxoCount: totals?.utxoCount ?? 0,
+      utxos: items.map(r => ({
         txid: r.txid,
         outputIndex: r.outputIndex,
         amount: r.amount
-      }))
+      })),
+      nextCursor
     }
   }
 
   /**
-   * Get all token balances (grouped by tokenId)
+   * Get token balances grouped by tokenId, one page of tokens at a time
+   * (ordered by tokenId), aggregated from the materialized balances.
+   * UTXOs are counted, not listed.
    * @param ownerKey Optional filter by owner's identity key
    */
-  async getAllBalances(ownerKey?: string): Promise<TokenBalance[]> {
-    console.log('🗄️ [STORAGE] getAllBalances called', ownerKey ? `for owner: ${ownerKey}` : '(all owners)')
-    console.log('🗄️ [STORAGE] Querying collection:', this.collection.collectionName)
-    console.log('🗄️ [STORAGE] Database:', this.db.databaseName)
-
-    const query: any = { spent: false }
+  async getAllBalances(ownerKey?: string, options?: PageOptions): Promise<Page<TokenBalance>> {
+    const page = resolvePage<string>(options, 'asc')
+    const match: Filter<BalanceDocument> = { utxoCount: { $gt: 0 } }
     if (ownerKey) {
-      query.ownerKey = ownerKey
+      match.ownerKey = ownerKey
+    }
+    if (page.after !== undefined) {
+      if (typeof page.after !== 'string') {
+        throw new Error('Invalid pagination cursor')
+      }
+      match.tokenId = { [page.order === 'asc' ? '$gt' : '$lt']: page.after }
+    }
+
+    const rows = await this.balances.aggregate<{
+      _id: string
+      totalAmount: Decimal128
+      utxoCount: number
+      token: Array<Pick<RegistryDocument, 'name' | 'symbol' | 'decimals'>>
+    }>([
+      { $match: match },
+      { $group: { _id: '$tokenId', totalAmount: { $sum: '$amount' }, utxoCount: { $sum: '$utxoCount' } } },
+      { $sort: { _id: page.order === 'asc' ? 1 : -1 } },
+      { $limit: page.pageSize + 1 },
+      // Name, symbol and decimals come from the token registry
+      {
+        $lookup: {
+          from: this.registry.collectionName,
+          localField: '_id',
+          foreignField: 'tokenId',
+          pipeline: [{ $project: { name: 1, symbol: 1, decimals: 1 } }],
+          as: 'token'
+        }
+      }
+    ]).toArray()
+    this.logger.debug('Balances aggregated', { ownerKey, tokens: rows.length })
+
+    const balances = rows.map((row): TokenBalance => {
+      const [token] = row.token
+      return {
+        tokenId: row._id,
+        name: token?.name,
+        symbol: token?.symbol,
+        decimals: token?.decimals ?? 0,
+        totalAmount: BigInt(row.totalAmount.toString()),
+        utxoCount: row.utxoCount
+      }
+    })
+    return toPage(balances, page, b => b.tokenId)
+  }
+
+  /**
+   * Recompute the materialized balances from the tokens collection and
+   * report every row that had drifted. Drifted rows are corrected unless
+   * dryRun is set.
+   */
+  async rebuildBalances(dryRun = false): Promise<BalanceDrift[]> {
+    const keyOf = (tokenId: string, ownerKey: string | null) => `${tokenId}:${ownerKey ?? ''}`
+
+    const expected = new Map<string, BalanceDrift>()
+    const computed = this.collection.aggregate<{
+      _id: { tokenId: string, ownerKey: string | null }
+      amount: Decimal128
+      utxoCount: number
+    }>(balancePipeline(), { allowDiskUse: true })
+    for await (const row of computed) {
+      expected.set(keyOf(row._id.tokenId, row._id.ownerKey), {
+        tokenId: row._id.tokenId,
+        ownerKey: row._id.ownerKey,
+        expected: { amount: BigInt(row.amount.toString()), utxoCount: row.utxoCount },
+        actual: { amount: 0n, utxoCount: 0 }
+      })
+    }
+
+    const drift: BalanceDrift[] = []
+    for await (const row of this.balances.find()) {
+      const key = keyOf(row.tokenId, row.ownerKey)
+      const actual = { amount: BigInt(row.amount.toString()), utxoCount: row.utxoCount }
+      const entry = expected.get(key) ?? {
+        tokenId: row.tokenId,
+        ownerKey: row.ownerKey,
+        expected: { amount: 0n, utxoCount: 0 },
+        actual
+      }
+      expected.delete(key)
+      entry.actual = actual
+      if (entry.actual.amount !== entry.expected.amount || entry.actual.utxoCount !== entry.expected.utxoCount) {
+        drift.push(entry)
+      }
+    }
+    // Whatever is left had no materialized row at all
+    drift.push(...expected.values())
+
+    if (!dryRun) {
+      for (const entry of drift) {
+        const key = { tokenId: entry.tokenId, ownerKey: entry.ownerKey }
+        if (entry.expected.utxoCount === 0) {
+          await this.balances.deleteOne(key)
+        } else {
+          await this.balances.updateOne(
+            key,
+            {
+              $set: {
+                amount: toDecimal128(entry.expected.amount),
+                utxoCount: entry.expected.utxoCount,
+                updatedAt: new Date()
+              }
+            },
+            { upsert: true }
+          )
+        }
+      }
+    }
+
+    return drift
+  }
+
+  /**
+   * Circulating supply, minted/burned totals and holder count of a token,
+   * from the materialized balances (which track unspent outputs). minted is
+   * the registry's totalMinted, which includes re-mints.
+   */
+  async getSupply(tokenId: string): Promise<TokenSupply> {
+    const [[totals], [minted], [burned], token] = await Promise.all([
+      this.balances.aggregate<{ circulating: Decimal128, utxoCount: number, holderCount: number }>([
+        { $match: { tokenId, utxoCount: { $gt: 0 } } },
+        {
+          $group: {
+            _id: null,
+            circulating: { $sum: '$amount' },
+            utxoCount: { $sum: '$utxoCount' },
+            // Outputs without an owner key circulate but have no holder
+            holderCount: { $sum: { $cond: [{ $eq: ['$ownerKey', null] }, 0, 1] } }
+          }
+        }
+      ]).toArray(),
+      this.collection.aggregate<{ amount: Decimal128 }>([
+        { $match: { tokenId, genesis: true } },
+        { $group: { _id: null, amount: { $sum: '$amount' } } }
+      ]).toArray(),
+      this.collection.aggregate<{ amount: Decimal128 }>([
+        { $match: { tokenId, burn: true } },
+        { $group: { _id: null, amount: { $sum: '$amount' } } }
+      ]).toArray(),
+      this.getToken(tokenId)
+    ])
+
+    const circulating = totals ? BigInt(totals.circulating.toString()) : 0n
+    const mintedAmount = token?.totalMinted ?? (minted ? BigInt(minted.amount.toString()) : 0n)
+    const burnedAmount = burned ? BigInt(burned.amount.toString()) : 0n
+    const unaccounted = mintedAmount - circulating - burnedAmount
+    return {
+      tokenId,
+      minted: mintedAmount,
+      burned: burnedAmount,
+      unaccounted: unaccounted > 0n ? unaccounted : 0n,
+      circulating,
+      maxSupply: token?.maxSupply,
+      holderCount: totals?.holderCount ?? 0,
+      utxoCount: totals?.utxoCount ?? 0
     }
+  }
+
+  /**
+   * Number of registered tokens
+   */
+  async countTokens(): Promise<number> {
+    return await this.registry.countDocuments()
+  }
+
+  /**
+   * Number of unspent token outputs across all tokens (burn records are
+   * stored as spent)
+   */
+  async countUnspentOutputs(): Promise<number> {
+    return await this.collection.countDocuments({ spent: false })
+  }
 
-    const records = await this.collection
+  /**
+   * Holders of a token by balance, largest first by default, one page at a
+   * time (the first page of size N is the top-N holders)
+   */
+  async getHolders(tokenId: string, options?: PageOptions): Promise<Page<TokenHolder>> {
+    const page = resolvePage<{ amount: string, ownerKey: string }>(options, 'desc')
+    const direction = page.order === 'asc' ? 1 : -1
+    const beyond = page.order === 'asc' ? '$gt' : '$lt'
+
+    const query: Filter<BalanceDocument> = { tokenId, ownerKey: { $ne: null }, utxoCount: { $gt: 0 } }
+    if (page.after !== undefined) {
+      if (typeof page.after?.amount !== 'string' || typeof page.after.ownerKey !== 'string') {
+        throw new Error('Invalid pagination cursor')
+      }
+      const amount = Decimal128.fromString(page.after.amount)
+      query.$or = [
+        { amount: { [beyond]: amount } },
+        { amount, ownerKey: { [beyond]: page.after.ownerKey } }
+      ]
+    }
+
+    const docs = await this.balances
       .find(query)
+      .sort({ amount: direction, ownerKey: direction })
+      .limit(page.pageSize + 1)
       .toArray()
-    console.log('🗄️ [STORAGE] Found records:', records.length)
+    const holders = docs.map(doc => ({
+      ownerKey: doc.ownerKey!,
+      amount: BigInt(doc.amount.toString()),
+      utxoCount: doc.utxoCount
+    }))
+    return toPage(holders, page, h => ({ amount: h.amount.toString(), ownerKey: h.ownerKey }))
+  }
 
-    // Group by tokenId
-    const balanceMap = new Map<string, TokenRecord[]>()
-    for (const record of records) {
-      const existing = balanceMap.get(record.tokenId) || []
-      existing.push(record)
-      balanceMap.set(record.tokenId, existing)
-    }
+  /**
+   * How a token's holders are spread by number of unspent outputs
+   */
+  async getUtxoDistribution(tokenId: string): Promise<UtxoCountBucket[]> {
+    const rows = await this.balances.aggregate<{ _id: number, holders: number, utxos: number }>([
+      { $match: { tokenId, ownerKey: { $ne: null }, utxoCount: { $gt: 0 } } },
+      {
+        $bucket: {
+          groupBy: '$utxoCount',
+          boundaries: [...UTXO_COUNT_BUCKETS, Number.MAX_SAFE_INTEGER],
+          output: { holders: { $sum: 1 }, utxos: { $sum: '$utxoCount' } }
+        }
+      }
+    ]).toArray()
 
-    // Calculate balances
-    const balances: TokenBalance[] = []
-    for (const [tokenId, tokenRecords] of balanceMap) {
-      const totalAmount = tokenRecords.reduce((sum, r) => sum + r.amount, 0)
-      const metadata = tokenRecords[0]?.metadata || {}
+    // Report every bucket, including empty ones
+    return UTXO_COUNT_BUCKETS.map((min, i) => {
+      const row = rows.find(r => r._id === min)
+      const next = UTXO_COUNT_BUCKETS[i + 1]
+      return {
+        min,
+        max: next === undefined ? undefined : next - 1,
+        holders: row?.holders ?? 0,
+        utxos: row?.utxos ?? 0
+      }
+    })
+  }
 
-      balances.push({
-        tokenId,
-        name: metadata.name,
-        symbol: metadata.symbol,
-        decimals: metadata.decimals || 0,
-        totalAmount,
-        utxos: tokenRecords.map(r => ({
-          txid: r.txid,
-          outputIndex: r.outputIndex,
-          amount: r.amount
-        }))
-      })
+  /**
+   * Record the outcome of validating a transaction, replacing any earlier
+   * outcome for the same txid (a resubmission is validated again)
+   */
+  async storeValidation(result: TokenValidationResult): Promise<void> {
+    await this.validations.replaceOne({ txid: result.txid }, result, { upsert: true })
+  }
+
+  /**
+   * The latest validation outcome of a transaction
+   */
+  async getValidation(txid: string): Promise<TokenValidationResult | null> {
+    const doc = await this.validations.findOne({ txid })
+    if (!doc) {
+      return null
+    }
+    const { _id, ...result } = doc
+    return result
+  }
+
+  /**
+   * Validation outcomes with at least one rejection of an output meant as a
+   * token (NOT_A_TOKEN alone does not count), newest first by default.
+   * Filtering by tokenId or code matches transactions with such a rejection.
+   */
+  async listRejections(filter: RejectionFilter = {}, options?: PageOptions): Promise<Page<TokenValidationResult>> {
+    const page = resolvePage<string>(options, 'desc')
+    const rejection: Filter<Document> = { code: filter.code ?? { $ne: 'NOT_A_TOKEN' } }
+    if (filter.tokenId) {
+      rejection.tokenId = filter.tokenId
+    }
+    const query: Filter<ValidationDocument> = { rejections: { $elemMatch: rejection } }
+    if (page.after !== undefined) {
+      if (typeof page.after !== 'string' || !ObjectId.isValid(page.after)) {
+        throw new Error('Invalid pagination cursor')
+      }
+      query._id = { [page.order === 'asc' ? '$gt' : '$lt']: new ObjectId(page.after) }
     }
 
-    return balances
+    const docs = await this.validations
+      .find(query)
+      .sort({ _id: page.order === 'asc' ? 1 : -1 })
+      .limit(page.pageSize + 1)
+      .toArray()
+    const { items, nextCursor } = toPage(docs, page, doc => doc._id.toHexString())
+    return { items: items.map(({ _id, ...result }) => result), nextCursor }
   }
 
   /**
    * Find a specific token record
    */
   async findToken(txid: string, outputIndex: number): Promise<TokenRecord | null> {
-    return await this.collection.findOne({ txid, outputIndex })
+    const doc = await this.collection.findOne({ txid, outputIndex })
+    return doc ? toRecord(doc) : null
+  }
+
+  /**
+   * Find the genesis output a tokenId was derived from
+   */
+  async getGenesis(tokenId: string): Promise<TokenRecord | null> {
+    const doc = await this.collection.findOne({ tokenId, genesis: true })
+    return doc ? toRecord(doc) : null
   }
 
   /**
-   * Get transaction history for a tokenId
+   * Get transaction history for a tokenId, newest first by default
+   * @param ownerKey Optional filter by owner's identity key
    */
-  async getHistory(tokenId: string, limit = 50): Promise<TokenRecord[]> {
-    return await this.collection
-      .find({ tokenId })
-      .sort({ createdAt: -1 })
-      .limit(limit)
+  async getHistory(tokenId: string, ownerKey?: string, page?: PageOptions): Promise<Page<TokenRecord>> {
+    const query: Filter<TokenDocument> = { tokenId }
+    if (ownerKey) {
+      query.ownerKey = ownerKey
+    }
+    return await this.findPage(query, page, 'desc')
+  }
+
+  /**
+   * Reconstruct transfers of a tokenId, newest first by default. Each
+   * transaction that created or consumed outputs of the token becomes one
+   * TokenTransfer, ordered by (time first seen, txid).
+   * @param ownerKey Optional filter: only transfers this owner sent or received
+   */
+  async getTransfers(tokenId: string, ownerKey?: string, options?: PageOptions): Promise<Page<TokenTransfer>> {
+    const page = resolvePage<{ at: string, txid: string }>(options, 'desc')
+    const direction = page.order === 'asc' ? 1 : -1
+    const beyond = page.order === 'asc' ? '$gt' : '$lt'
+
+    const query: Filter<TokenDocument> = { tokenId }
+    if (ownerKey) {
+      query.ownerKey = ownerKey
+    }
+
+    // Every transaction touching these outputs, either creating or spending them
+    const pipeline: Document[] = [
+      { $match: query },
+      {
+        $project: {
+          events: [
+            { txid: '$txid', at: '$createdAt' },
+            { txid: '$spendingTxid', at: { $ifNull: ['$spentAt', '$createdAt'] } }
+          ]
+        }
+      },
+      { $unwind: '$events' },
+      { $match: { 'events.txid': { $type: 'string' } } },
+      { $group: { _id: '$events.txid', at: { $min: '$events.at' } } }
+    ]
+    if (page.after !== undefined) {
+      const at = new Date(page.after?.at)
+      if (isNaN(at.getTime()) || typeof page.after.txid !== 'string') {
+        throw new Error('Invalid pagination cursor')
+      }
+      pipeline.push({
+        $match: {
+          $or: [
+            { at: { [beyond]: at } },
+            { at, _id: { [beyond]: page.after.txid } }
+          ]
+        }
+      })
+    }
+    pipeline.push(
+      { $sort: { at: direction, _id: direction } },
+      { $limit: page.pageSize + 1 }
+    )
+
+    const events = await this.collection
+      .aggregate<{ _id: string, at: Date }>(pipeline, { allowDiskUse: true })
       .toArray()
+    const { items: touched, nextCursor } = toPage(events, page, e => ({ at: e.at.toISOString(), txid: e._id }))
+    const txids = touched.map(e => e._id)
+
+    const [created, consumed] = await Promise.all([
+      this.collection.find({ tokenId, txid: { $in: txids } }).toArray(),
+      this.collection.find({ tokenId, spendingTxid: { $in: txids } }).toArray()
+    ])
+
+    const transfers = touched.map(({ _id: txid, at }): TokenTransfer => {
+      const records = created
+        .filter(doc => doc.txid === txid)
+        .map(toRecord)
+        .sort((a, b) => a.outputIndex - b.outputIndex)
+      const outputs = records.filter(r => !r.burn)
+      const burned = records.filter(r => r.burn).reduce((sum, r) => sum + r.amount, 0n)
+      const inputs = consumed
+        .filter(doc => doc.spendingTxid === txid)
+        .map(toRecord)
+        .sort((a, b) => (a.spendingInputIndex ?? 0) - (b.spendingInputIndex ?? 0))
+
+      const net: Record<string, bigint> = {}
+      for (const input of inputs) {
+        if (input.ownerKey) {
+          net[input.ownerKey] = (net[input.ownerKey] ?? 0n) - input.amount
+        }
+      }
+      for (const output of outputs) {
+        if (output.ownerKey) {
+          net[output.ownerKey] = (net[output.ownerKey] ?? 0n) + output.amount
+        }
+      }
+
+      const senders = [...new Set(inputs.flatMap(i => i.ownerKey ? [i.ownerKey] : []))]
+      const recipients = [...new Set(outputs.flatMap(o => o.ownerKey ? [o.ownerKey] : []))]
+        .filter(key => !senders.includes(key) || net[key] > 0n)
+
+      return {
+        txid,
+        tokenId,
+        kind: inputs.length === 0 ? 'mint' : burned > 0n || outputs.length === 0 ? 'burn' : 'transfer',
+        timestamp: at,
+        burned,
+        inputs: inputs.map(i => ({
+          txid: i.txid,
+          outputIndex: i.outputIndex,
+          inputIndex: i.spendingInputIndex,
+          amount: i.amount,
+          ownerKey: i.ownerKey
+        })),
+        outputs: outputs.map(o => ({
+          outputIndex: o.outputIndex,
+          amount: o.amount,
+          ownerKey: o.ownerKey
+        })),
+        senders,
+        recipients,
+        amountIn: inputs.reduce((sum, i) => sum + i.amount, 0n),
+        amountOut: outputs.reduce((sum, o) => sum + o.amount, 0n),
+        net
+      }
+    })
+
+    return { items: transfers, nextCursor }
   }
 }
@@ -0,0 +1,171 @@
+import { STEAK, Transaction } from '@bsv/sdk'
+import { TokenRejection, isTokenRejection } from './TokenValidation.js'
+
+export const TOKEN_TOPIC = 'tm_tokens'
+
+export interface TokenSubmitterOptions {
+  overlayUrl: string
+  topics?: string[]  // [TOKEN_TOPIC] by default
+  maxAttempts?: number  // Including the first, 5 by default
+  initialDelayMs?: number  // Backoff before the first retry, doubled after each
+  maxDelayMs?: number
+  timeoutMs?: number  // Per request, 30 seconds by default
+}
+
+/**
+ * What the overlay did with a submitted transaction
+ */
+export interface SubmitResult {
+  txid: string
+  steak: STEAK
+  admitted: Record<string, number[]>  // Output indexes admitted, by topic
+  rejections: TokenRejection[]  // Why token outputs were not admitted to TOKEN_TOPIC
+  attempts: number
+}
+
+/**
+ * A submission that failed. transient is true when retrying could help
+ * (network errors, timeouts, 429 and 5xx responses).
+ */
+export class TokenSubmitError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly transient = false
+  ) {
+    super(message)
+    this.name = 'TokenSubmitError'
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_INITIAL_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 8000
+const DEFAULT_TIMEOUT_MS = 30000
+
+/**
+ * TokenSubmitter - Sends transactions straight to the overlay.
+ *
+ * The BEEF returned by createAction/signAction already carries everything
+ * the overlay needs to verify the transaction, so it is POSTed to /submit
+ * with X-Topics as soon as the wallet returns it: there is nothing to wait
+ * for on a block explorer. The STEAK response says which outputs each
+ * topic admitted.
+ *
+ * Transient failures are retried with exponential backoff. Resubmitting is
+ * safe: the overlay treats a transaction it already has as a duplicate.
+ *
+ * The STEAK does not say why outputs were left out, so for TOKEN_TOPIC the
+ * reasons are then fetched from the overlay's /token-validations endpoint.
+ */
+export class TokenSubmitter {
+  private readonly topics: string[]
+  private readonly maxAttempts: number
+  private readonly initialDelayMs: number
+  private readonly maxDelayMs: number
+
+  constructor(private readonly options: TokenSubmitterOptions) {
+    this.topics = options.topics ?? [TOKEN_TOPIC]
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)
+    this.initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+  }
+
+  /**
+   * Submit a transaction (BEEF or Atomic BEEF, as the wallet returns it)
+   */
+  async submit(beef: number[]): Promise<SubmitResult> {
+    let tx: Transaction
+    try {
+      tx = Transaction.fromAtomicBEEF(beef)
+    } catch {
+      tx = Transaction.fromBEEF(beef)
+    }
+    const body = new Uint8Array(tx.toBEEF())
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const steak = await this.post(body)
+        const txid = tx.id('hex')
+        return {
+          txid,
+          steak,
+          admitted: Object.fromEntries(this.topics.map(topic => [topic, steak[topic]?.outputsToAdmit ?? []])),
+          rejections: this.topics.includes(TOKEN_TOPIC) ? await this.fetchRejections(txid) : [],
+          attempts: attempt
+        }
+      } catch (error) {
+        const transient = !(error instanceof TokenSubmitError) || error.transient
+        if (!transient || attempt >= this.maxAttempts) {
+          throw error
+        }
+        const delay = Math.min(this.initialDelayMs * 2 ** (attempt - 1), this.maxDelayMs)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  private async post(body: Uint8Array): Promise<STEAK> {
+    let response: Response
+    try {
+      response = await fetch(`${this.options.overlayUrl}/submit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Topics': JSON.stringify(this.topics)
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      })
+    } catch (error) {
+      // Connection refused or reset, DNS, timeout...
+      throw new TokenSubmitError(
+        `Could not reach the overlay at ${this.options.overlayUrl}: ${error instanceof Error ? error.message : error}`,
+        undefined,
+        true
+      )
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      let message = text || response.statusText
+      try {
+        message = JSON.parse(text).message ?? message
+      } catch {}
+      const transient = response.status === 408 || response.status === 429 || response.status >= 500
+      throw new TokenSubmitError(`Overlay rejected the submission (${response.status}): ${message}`, response.status, transient)
+    }
+
+    return await response.json() as STEAK
+  }
+
+  /**
+   * The token rejections the overlay recorded for a transaction. Best effort:
+   * an overlay without the endpoint just yields none.
+   */
+  private async fetchRejections(txid: string): Promise<TokenRejection[]> {
+    try {
+      const response = await fetch(`${this.options.overlayUrl}/token-validations/${txid}`, {
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      })
+      if (!response.ok) {
+        return []
+      }
+      const { rejections } = await response.json() as { rejections?: TokenRejection[] }
+      return (rejections ?? []).filter(isTokenRejection)
+    } catch {
+      return []
+    }
+  }
+}
+
+/**
+ * One-line summary of what each topic admitted
+ */
+export function describeSubmitResult(result: SubmitResult): string {
+  return Object.entries(result.admitted)
+    .map(([topic, outputs]) => outputs.length > 0
+      ? `${topic} admitted output(s) ${outputs.join(', ')}`
+      : `${topic} admitted no outputs`)
+    .join('; ')
+}
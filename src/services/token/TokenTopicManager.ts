@@ -1,96 +1,242 @@
 import { TopicManager, AdmittanceInstructions } from '@bsv/overlay'
-import { Transaction, PushDrop, Utils, BigNumber } from '@bsv/sdk'
+import { Transaction } from '@bsv/sdk'
+import TokenStorageManager, { TokenRegistryEntry } from './TokenStorageManager.js'
+import { deriveTokenId, resolveTokenId } from './TokenId.js'
+import {
+  MintAuthority,
+  TokenFieldError,
+  decodeBurnScript,
+  decodeMintAuthorityScript,
+  decodeTokenScript,
+  parseTokenAmount,
+  resolveAuthorityTokenId
+} from './TokenOutput.js'
+import { TokenRejection, isTokenRejection } from './TokenValidation.js'
+import { Logger, createLogger } from '../logging/Logger.js'
+import TokenMetrics from '../metrics/TokenMetrics.js'
+
+interface TokenOutputCandidate {
+  outputIndex: number
+  tokenId: string
+  declaredTokenId: string
+  amount: bigint
+  metadata: any
+  burn?: boolean  // OP_RETURN burn record rather than a token output
+  authority?: MintAuthority  // Mint authority rather than a token output
+}
+
+interface ConsumedTokens {
+  amounts: Map<string, bigint>
+  authorities: Map<string, MintAuthority>
+}
+
+/**
+ * A rejection before it is attached to the outputs it applies to
+ */
+type RejectionReason = Omit<TokenRejection, 'outputIndex' | 'tokenId'>
+
+/**
+ * Metadata fields that a token's genesis output fixes for every later output,
+ * as recorded in the token registry
+ */
+const DEFINITION_FIELDS = ['name', 'symbol', 'decimals'] as const
+
+/**
+ * Record the rejection of an output (logged with the validation result)
+ */
+function reject(rejections: TokenRejection[], rejection: TokenRejection): void {
+  rejections.push(rejection)
+}
+
+/**
+ * Reject every output in a group for the same reason
+ */
+function rejectAll(rejections: TokenRejection[], outputs: TokenOutputCandidate[], reason: RejectionReason): void {
+  for (const o of outputs) {
+    reject(rejections, { outputIndex: o.outputIndex, tokenId: o.tokenId, ...reason })
+  }
+}
+
+/**
+ * Rejection for an output whose fields do not decode. A script that does
+ * not even carry a token protocol tag is simply not a token.
+ */
+function decodeRejection(outputIndex: number, err: unknown): TokenRejection {
+  const message = err instanceof Error ? err.message : String(err)
+  if (!(err instanceof TokenFieldError) || err.field === 'protocol') {
+    return { outputIndex, code: 'NOT_A_TOKEN', message }
+  }
+  return { outputIndex, code: 'MALFORMED', message, field: err.field, expected: err.expected, actual: err.actual }
+}
 
 /**
  * TokenTopicManager validates token transactions for the overlay.
+ *
+ * Every output it does not admit gets a typed TokenRejection. The outcome
+ * of each transaction is stored through the storage manager, where the
+ * REST API serves it to submitters.
+ *
+ * Log lines of a submission carry its txid. Admissions and rejections are
+ * counted in the metrics, when given.
  */
 export default class TokenTopicManager implements TopicManager {
 
+  constructor(
+    private readonly storageManager: TokenStorageManager,
+    private readonly metrics?: TokenMetrics,
+    private readonly logger: Logger = createLogger('topic-manager')
+  ) {}
+
   async identifyAdmissibleOutputs(
     beef: number[],
     previousCoins: number[]
   ): Promise<AdmittanceInstructions> {
-    console.log('Identifying admissible outputs...')
     const outputsToAdmit: number[] = []
+    const rejections: TokenRejection[] = []
+    let txid: string | undefined
+    let log = this.logger
 
     try {
       // Parse transaction from BEEF
       const tx = Transaction.fromBEEF(beef)
+      txid = tx.id('hex')
+      log = this.logger.child({ txid })
+      log.debug('Identifying admissible outputs', { outputs: tx.outputs.length, previousCoins })
 
-      // Check each output
-      for (let i = 0; i < tx.outputs.length; i++) {
-        try {
-          const output = tx.outputs[i]
+      // Sum the token amounts (and mint authorities) consumed by this
+      // transaction, per tokenId
+      const consumed = this.sumConsumedTokens(tx, previousCoins, log)
 
-          // Decode using PushDrop (BRC-48)
-          const { fields } = PushDrop.decode(output.lockingScript)
+      // Check each output, grouping the valid ones by tokenId
+      const candidates = new Map<string, TokenOutputCandidate[]>()
+      for (let i = 0; i < tx.outputs.length; i++) {
+        const candidate = this.validateOutput(tx, txid, i, rejections)
+        if (!candidate) {
+          continue
+        }
+        const existing = candidates.get(candidate.tokenId) || []
+        existing.push(candidate)
+        candidates.set(candidate.tokenId, existing)
+      }
 
-          // Validate token protocol (PushDrop has lockingKey as field 0)
-          if (fields.length < 5) {
-            console.log(`Output ${i}: Rejected - insufficient fields (need at least 5, got ${fields.length})`)
-            continue
-          }
+      for (const [tokenId, candidateOutputs] of candidates) {
+        const consumedAmount = consumed.amounts.get(tokenId)
+        const consumedAuthority = consumed.authorities.get(tokenId)
+        const burns = candidateOutputs.filter(o => o.burn)
+        const authorities = candidateOutputs.filter(o => o.authority)
+        const outputs = candidateOutputs.filter(o => !o.burn && !o.authority)
 
-          const field0Value = Utils.toUTF8(fields[0])
-          if (field0Value !== 'TOKEN') {
-            console.log(`Output ${i}: Rejected - field[0] is not 'TOKEN' (got '${field0Value}')`)
-            continue
-          }
+        const registered = await this.storageManager.getToken(tokenId)
 
-          const field1Value = Utils.toHex(fields[1])
-          if (field1Value !== '0000000000000000000000000000000000000000000000000000000000000001') {
-            console.log(`Output ${i}: Rejected - field[1] tokenId mismatch (expected '0000000000000000000000000000000000000000000000000000000000000001', got '${field1Value}')`)
-            continue
+        if (consumedAmount === undefined && !consumedAuthority) {
+          // Nothing of this token is spent, so there is nothing to burn...
+          for (const b of burns) {
+            reject(rejections, {
+              outputIndex: b.outputIndex,
+              tokenId,
+              code: 'INSUFFICIENT_INPUTS',
+              message: `burns ${b.amount} of token ${tokenId} but the transaction spends none`,
+              field: 'amount',
+              expected: '0',
+              actual: b.amount.toString()
+            })
           }
-
-          const reader = new Utils.Reader(fields[2])
-          const amount = reader.readUInt64LEBn()
-          if (amount < new BigNumber(0) || amount > new BigNumber(BigInt(Number.MAX_SAFE_INTEGER))) {
-            console.log(`Output ${i}: Rejected - amount out of range (got ${amount.toString()})`)
+          // ...and the outputs can only be a mint
+          if (outputs.length === 0) {
+            rejectAll(rejections, authorities, {
+              code: 'INVALID_MINT_AUTHORITY',
+              message: `mint authority for token ${tokenId} neither spends its authority nor comes with a genesis`
+            })
             continue
           }
-
-          const jsonMetadata = JSON.parse(Utils.toUTF8(fields[3]))
-          if (!jsonMetadata) {
-            console.log(`Output ${i}: Rejected - no metadata found`)
+          if (!this.isValidGenesis(outputs, authorities, registered, txid, rejections)) {
             continue
           }
-
-          if (jsonMetadata.name !== 'goose') {
-            console.log(`Output ${i}: Rejected - metadata.name is not 'goose' (got '${jsonMetadata.name}')`)
-            continue
+          log.debug('Output admitted: genesis', { outputIndex: outputs[0].outputIndex, tokenId, amount: outputs[0].amount })
+          this.metrics?.outputAdmitted('genesis')
+          outputsToAdmit.push(outputs[0].outputIndex)
+          for (const a of authorities) {
+            log.debug('Output admitted: mint authority created at genesis', { outputIndex: a.outputIndex, tokenId })
+            this.metrics?.outputAdmitted('mint-authority')
+            outputsToAdmit.push(a.outputIndex)
           }
+          continue
+        }
 
-          if (jsonMetadata.symbol !== 'GOOSE') {
-            console.log(`Output ${i}: Rejected - metadata.symbol is not 'GOOSE' (got '${jsonMetadata.symbol}')`)
-            continue
-          }
+        // Transfer: outputs must match the token's genesis definition
+        const matching = this.matchGenesisDefinition(outputs, registered, rejections)
 
-          if (jsonMetadata.decimals !== 5) {
-            console.log(`Output ${i}: Rejected - metadata.decimals is not 5 (got ${jsonMetadata.decimals})`)
+        // ...and together with any burns may not exceed what the inputs
+        // consumed, unless the excess is minted through the mint authority
+        const available = consumedAmount ?? 0n
+        const producedAmount = matching.reduce((sum, o) => sum + o.amount, 0n)
+        const burnedAmount = burns.reduce((sum, b) => sum + b.amount, 0n)
+        const mintedAmount = producedAmount + burnedAmount - available
+        if (mintedAmount > 0n) {
+          const remintProblem = consumedAuthority
+            ? this.checkRemint(consumedAuthority, authorities, mintedAmount)
+            : {
+                code: 'INSUFFICIENT_INPUTS' as const,
+                message: `transfer creates ${producedAmount} and burns ${burnedAmount} tokens but only ${available} were consumed`,
+                field: 'amount',
+                expected: `at most ${available}`,
+                actual: (producedAmount + burnedAmount).toString()
+              }
+          if (remintProblem) {
+            rejectAll(rejections, [...matching, ...burns, ...authorities], remintProblem)
             continue
           }
+        }
 
-          if (jsonMetadata.description !== 'something nice') {
-            console.log(`Output ${i}: Rejected - metadata.description is not 'something nice' (got '${jsonMetadata.description}')`)
-            continue
+        // An authority may also be passed on without minting anything
+        let admittedAuthorities = authorities
+        if (mintedAmount <= 0n && authorities.length > 0) {
+          const passOnProblem = consumedAuthority
+            ? this.checkRemint(consumedAuthority, authorities, 0n)
+            : {
+                code: 'INVALID_MINT_AUTHORITY' as const,
+                message: `mint authority for token ${tokenId} does not carry on a spent authority`
+              }
+          if (passOnProblem) {
+            rejectAll(rejections, authorities, passOnProblem)
+            admittedAuthorities = []
           }
+        }
 
-          // Output is valid
-          console.log(`Output ${i}: ACCEPTED - all validation checks passed`)
-          outputsToAdmit.push(i)
-
-        } catch (err) {
-          // Skip invalid outputs silently
-          console.log(`Output ${i}: Rejected - error during processing: ${err}`)
-          continue
+        for (const o of matching) {
+          log.debug('Output admitted: transfer', { outputIndex: o.outputIndex, tokenId, amount: o.amount })
+          this.metrics?.outputAdmitted('transfer')
+          outputsToAdmit.push(o.outputIndex)
+        }
+        for (const b of burns) {
+          log.debug('Output admitted: burn', { outputIndex: b.outputIndex, tokenId, amount: b.amount })
+          this.metrics?.outputAdmitted('burn')
+          outputsToAdmit.push(b.outputIndex)
+        }
+        for (const a of admittedAuthorities) {
+          log.debug('Output admitted: mint authority re-created', {
+            outputIndex: a.outputIndex,
+            tokenId,
+            minted: mintedAmount > 0n ? mintedAmount : undefined
+          })
+          this.metrics?.outputAdmitted('mint-authority')
+          outputsToAdmit.push(a.outputIndex)
         }
       }
 
+      // Report admitted outputs in transaction order
+      outputsToAdmit.sort((a, b) => a - b)
+
     } catch (error) {
-      console.error('Error processing transaction:', error)
+      log.error('Error processing transaction', { error })
+      rejections.push({
+        code: 'INVALID_TRANSACTION',
+        message: error instanceof Error ? error.message : String(error)
+      })
     }
 
+    await this.recordValidation(log, txid, outputsToAdmit, rejections)
+
     return {
       outputsToAdmit,
       coinsToRetain: []
@@ -98,14 +244,477 @@ export default class TokenTopicManager implements TopicManager {
   }
 
   /**
-   * Parse 8-byte buffer to integer (little-endian)
+   * Log and store the outcome for diagnostics. Storage trouble is logged
+   * rather than allowed to change what is admitted.
+   */
+  private async recordValidation(
+    log: Logger,
+    txid: string | undefined,
+    admitted: number[],
+    rejections: TokenRejection[]
+  ): Promise<void> {
+    rejections.sort((a, b) => (a.outputIndex ?? -1) - (b.outputIndex ?? -1))
+    for (const rejection of rejections) {
+      this.metrics?.outputRejected(rejection.code)
+      const { message, ...fields } = rejection
+      // Every transaction has outputs that are not tokens (such as change)
+      if (isTokenRejection(rejection)) {
+        log.info(`Output rejected: ${message}`, fields)
+      } else {
+        log.debug(`Output ignored: ${message}`, fields)
+      }
+    }
+    log.info('Transaction validated', { admitted, rejected: rejections.filter(isTokenRejection).length })
+
+    if (!txid) {
+      return
+    }
+    try {
+      await this.storageManager.storeValidation({ txid, admitted, rejections, validatedAt: new Date() })
+    } catch (error) {
+      log.error('Error storing the validation result', { error })
+      this.metrics?.storageError('store-validation')
+    }
+  }
+
+  /**
+   * Decode the token inputs listed in previousCoins from their source
+   * transactions and total the amounts spent for each tokenId, noting any
+   * mint authority spent along the way.
    */
-  private parseAmount(buffer: number[]): number {
-    let amount = 0
-    for (let i = 0; i < 8; i++) {
-      amount += buffer[i] * Math.pow(256, i)
+  private sumConsumedTokens(tx: Transaction, previousCoins: number[], log: Logger): ConsumedTokens {
+    const amounts = new Map<string, bigint>()
+    const authorities = new Map<string, MintAuthority>()
+
+    for (const inputIndex of previousCoins) {
+      try {
+        const input = tx.inputs[inputIndex]
+        const sourceOutput = input?.sourceTransaction?.outputs[input.sourceOutputIndex]
+        if (!sourceOutput) {
+          log.debug('Input ignored: no source transaction in BEEF', { inputIndex })
+          continue
+        }
+
+        const sourceTxid = input.sourceTXID ?? input.sourceTransaction!.id('hex')
+        const authority = decodeMintAuthorityScript(sourceOutput.lockingScript)
+        if (authority) {
+          const tokenId = resolveAuthorityTokenId(authority.tokenId, input.sourceTransaction!, sourceTxid)
+          authorities.set(tokenId, authority)
+          continue
+        }
+
+        const decoded = decodeTokenScript(sourceOutput.lockingScript)
+        const tokenId = resolveTokenId(decoded.tokenId, sourceTxid, input.sourceOutputIndex)
+        const { amount } = decoded
+        amounts.set(tokenId, (amounts.get(tokenId) ?? 0n) + amount)
+      } catch (err) {
+        log.debug('Input ignored: not a token output', { inputIndex, error: err })
+      }
     }
-    return amount
+
+    return { amounts, authorities }
+  }
+
+  /**
+   * Validate a single output against the token protocol rules.
+   * Returns undefined (after recording the rejection) when the output is rejected.
+   */
+  private validateOutput(
+    tx: Transaction,
+    txid: string,
+    i: number,
+    rejections: TokenRejection[]
+  ): TokenOutputCandidate | undefined {
+    const { lockingScript } = tx.outputs[i]
+
+    // Mint authorities are PushDrop outputs with their own field layout
+    let authority
+    try {
+      authority = decodeMintAuthorityScript(lockingScript)
+    } catch (err) {
+      reject(rejections, decodeRejection(i, err))
+      return
+    }
+    if (authority) {
+      let tokenId
+      try {
+        tokenId = resolveAuthorityTokenId(authority.tokenId, tx, txid)
+      } catch (err) {
+        reject(rejections, {
+          outputIndex: i,
+          code: 'INVALID_MINT_AUTHORITY',
+          message: err instanceof Error ? err.message : String(err),
+          field: 'tokenId'
+        })
+        return
+      }
+      return {
+        outputIndex: i,
+        tokenId,
+        declaredTokenId: authority.tokenId,
+        amount: 0n,
+        metadata: undefined,
+        authority
+      }
+    }
+
+    // Burn records are OP_RETURN outputs naming the token and amount destroyed
+    let burn
+    try {
+      burn = decodeBurnScript(lockingScript)
+    } catch (err) {
+      reject(rejections, decodeRejection(i, err))
+      return
+    }
+    if (burn) {
+      if (burn.amount <= 0n) {
+        reject(rejections, {
+          outputIndex: i,
+          tokenId: burn.tokenId,
+          code: 'INVALID_AMOUNT',
+          message: `burn amount out of range (got ${burn.amount})`,
+          field: 'amount',
+          expected: 'more than 0',
+          actual: burn.amount.toString()
+        })
+        return
+      }
+      return {
+        outputIndex: i,
+        tokenId: burn.tokenId,
+        declaredTokenId: burn.tokenId,
+        amount: burn.amount,
+        metadata: undefined,
+        burn: true
+      }
+    }
+
+    let decoded
+    try {
+      // Decode using PushDrop (BRC-48) and the shared token field layout
+      decoded = decodeTokenScript(lockingScript)
+    } catch (err) {
+      reject(rejections, decodeRejection(i, err))
+      return
+    }
+
+    const { tokenId: declaredTokenId, amount, metadata: jsonMetadata } = decoded
+    const tokenId = resolveTokenId(declaredTokenId, txid, i)
+    if (amount <= 0n) {
+      reject(rejections, {
+        outputIndex: i,
+        tokenId,
+        code: 'INVALID_AMOUNT',
+        message: `amount out of range (got ${amount})`,
+        field: 'amount',
+        expected: 'more than 0',
+        actual: amount.toString()
+      })
+      return
+    }
+
+    if (jsonMetadata !== undefined && (jsonMetadata === null || typeof jsonMetadata !== 'object')) {
+      reject(rejections, {
+        outputIndex: i,
+        tokenId,
+        code: 'INVALID_METADATA',
+        message: 'metadata must be a JSON object',
+        field: 'metadata',
+        expected: 'object',
+        actual: jsonMetadata === null ? 'null' : typeof jsonMetadata
+      })
+      return
+    }
+
+    return {
+      outputIndex: i,
+      tokenId,
+      declaredTokenId,
+      amount,
+      metadata: jsonMetadata
+    }
+  }
+
+  /**
+   * Genesis rule: a transaction that spends none of a token's UTXOs may only
+   * create a single output for it, declaring the initial supply in its
+   * metadata, plus at most one mint authority if the token is mintable.
+   * That output's metadata becomes the token's definition, and its tokenId
+   * must be the one derived from its own outpoint.
+   */
+  private isValidGenesis(
+    outputs: TokenOutputCandidate[],
+    authorities: TokenOutputCandidate[],
+    existing: TokenRegistryEntry | null,
+    txid: string,
+    rejections: TokenRejection[]
+  ): boolean {
+    const mismatched = outputs.filter(o => o.tokenId !== deriveTokenId(txid, o.outputIndex))
+    if (mismatched.length > 0) {
+      for (const o of mismatched) {
+        reject(rejections, {
+          outputIndex: o.outputIndex,
+          tokenId: o.tokenId,
+          code: 'TOKEN_ID_MISMATCH',
+          message: `mint declares tokenId ${o.declaredTokenId} which does not match its outpoint ${txid}:${o.outputIndex}`,
+          field: 'tokenId',
+          expected: deriveTokenId(txid, o.outputIndex),
+          actual: o.declaredTokenId
+        })
+      }
+      return false
+    }
+
+    if (existing) {
+      rejectAll(rejections, outputs, {
+        code: 'ALREADY_MINTED',
+        message: `token ${outputs[0].tokenId} was already minted in ${existing.genesisTxid}:${existing.genesisOutputIndex}`
+      })
+      return false
+    }
+
+    if (outputs.length !== 1) {
+      rejectAll(rejections, outputs, {
+        code: 'INVALID_GENESIS',
+        message: `genesis must create exactly one output (got ${outputs.length})`,
+        expected: '1',
+        actual: String(outputs.length)
+      })
+      return false
+    }
+
+    const [genesis] = outputs
+    const rejectGenesis = (reason: RejectionReason) => {
+      rejectAll(rejections, [genesis], reason)
+      return false
+    }
+
+    if (!genesis.metadata) {
+      return rejectGenesis({ code: 'INVALID_GENESIS', message: 'genesis has no metadata', field: 'metadata' })
+    }
+
+    if (parseTokenAmount(genesis.metadata.totalSupply) !== genesis.amount) {
+      return rejectGenesis({
+        code: 'INVALID_GENESIS',
+        message: `genesis amount ${genesis.amount} does not match metadata.totalSupply (got ${genesis.metadata.totalSupply})`,
+        field: 'amount',
+        expected: String(genesis.metadata.totalSupply),
+        actual: genesis.amount.toString()
+      })
+    }
+
+    const { name, symbol, decimals } = genesis.metadata
+    if (typeof name !== 'string' || name.length === 0) {
+      return rejectGenesis({
+        code: 'INVALID_METADATA',
+        message: `genesis metadata.name must be a non-empty string (got '${name}')`,
+        field: 'metadata.name',
+        expected: 'non-empty string',
+        actual: String(name)
+      })
+    }
+
+    if (typeof symbol !== 'string' || symbol.length === 0) {
+      return rejectGenesis({
+        code: 'INVALID_METADATA',
+        message: `genesis metadata.symbol must be a non-empty string (got '${symbol}')`,
+        field: 'metadata.symbol',
+        expected: 'non-empty string',
+        actual: String(symbol)
+      })
+    }
+
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      return rejectGenesis({
+        code: 'INVALID_METADATA',
+        message: `genesis metadata.decimals must be a non-negative integer (got ${decimals})`,
+        field: 'metadata.decimals',
+        expected: 'non-negative integer',
+        actual: String(decimals)
+      })
+    }
+
+    const { icon } = genesis.metadata
+    if (icon !== undefined && typeof icon !== 'string') {
+      return rejectGenesis({
+        code: 'INVALID_METADATA',
+        message: 'genesis metadata.icon must be a URL string if present',
+        field: 'metadata.icon',
+        expected: 'URL string',
+        actual: typeof icon
+      })
+    }
+
+    return this.isValidGenesisAuthority(genesis, authorities, rejections)
+  }
+
+  /**
+   * A mintable token (metadata.mintable true) must create exactly one mint
+   * authority at genesis, and a fixed-supply token none. The authority starts
+   * at the genesis amount and carries metadata.maxSupply as its cap.
+   */
+  private isValidGenesisAuthority(
+    genesis: TokenOutputCandidate,
+    authorities: TokenOutputCandidate[],
+    rejections: TokenRejection[]
+  ): boolean {
+    const rejectMint = (message: string, field?: string, expected?: string, actual?: string) => {
+      rejectAll(rejections, [genesis, ...authorities], { code: 'INVALID_MINT_AUTHORITY', message, field, expected, actual })
+      return false
+    }
+
+    const { mintable, maxSupply: declaredMaxSupply } = genesis.metadata
+    if (mintable !== undefined && typeof mintable !== 'boolean') {
+      return rejectMint(`genesis metadata.mintable must be a boolean if present (got ${mintable})`, 'metadata.mintable', 'boolean', String(mintable))
+    }
+
+    const maxSupply = parseTokenAmount(declaredMaxSupply)
+    if (declaredMaxSupply !== undefined && (maxSupply === undefined || maxSupply < genesis.amount)) {
+      return rejectMint(
+        `genesis metadata.maxSupply must be an amount of at least the initial supply (got ${declaredMaxSupply})`,
+        'metadata.maxSupply',
+        `at least ${genesis.amount}`,
+        String(declaredMaxSupply)
+      )
+    }
+
+    if (mintable !== true) {
+      if (authorities.length > 0) {
+        return rejectMint('genesis creates a mint authority but metadata.mintable is not true', 'metadata.mintable', 'true', String(mintable))
+      }
+      if (maxSupply !== undefined && maxSupply !== genesis.amount) {
+        return rejectMint(
+          `fixed-supply token declares metadata.maxSupply ${maxSupply} above its supply of ${genesis.amount}`,
+          'metadata.maxSupply',
+          genesis.amount.toString(),
+          maxSupply.toString()
+        )
+      }
+      return true
+    }
+
+    if (authorities.length !== 1) {
+      return rejectMint(`mintable genesis must create exactly one mint authority (got ${authorities.length})`, undefined, '1', String(authorities.length))
+    }
+
+    const { authority } = authorities[0]
+    if (authority!.maxSupply !== maxSupply) {
+      return rejectMint(
+        `mint authority cap ${authority!.maxSupply ?? 'none'} does not match metadata.maxSupply ${maxSupply ?? 'none'}`,
+        'maxSupply',
+        maxSupply?.toString() ?? 'none',
+        authority!.maxSupply?.toString() ?? 'none'
+      )
+    }
+    if (authority!.totalMinted !== genesis.amount) {
+      return rejectMint(
+        `mint authority totalMinted ${authority!.totalMinted} does not match the genesis amount ${genesis.amount}`,
+        'totalMinted',
+        genesis.amount.toString(),
+        authority!.totalMinted.toString()
+      )
+    }
+    return true
+  }
+
+  /**
+   * Re-mint rule: a transaction spending a token's mint authority may create
+   * mintedAmount new units if it re-creates exactly one authority for the
+   * same issuer and cap, with totalMinted advanced by mintedAmount and
+   * still within the cap. Returns why not, if it may not.
+   */
+  private checkRemint(previous: MintAuthority, authorities: TokenOutputCandidate[], mintedAmount: bigint): RejectionReason | undefined {
+    if (authorities.length !== 1) {
+      return {
+        code: 'INVALID_MINT_AUTHORITY',
+        message: `mint authority must be re-created exactly once (got ${authorities.length})`,
+        expected: '1',
+        actual: String(authorities.length)
+      }
+    }
+
+    const { authority: next } = authorities[0]
+    if (next!.issuerKey !== previous.issuerKey) {
+      return {
+        code: 'INVALID_MINT_AUTHORITY',
+        message: `output ${authorities[0].outputIndex} changes the mint authority's issuer`,
+        field: 'issuerKey',
+        expected: previous.issuerKey,
+        actual: next!.issuerKey
+      }
+    }
+    if (next!.maxSupply !== previous.maxSupply) {
+      return {
+        code: 'INVALID_MINT_AUTHORITY',
+        message: `output ${authorities[0].outputIndex} changes the mint authority's cap`,
+        field: 'maxSupply',
+        expected: previous.maxSupply?.toString() ?? 'none',
+        actual: next!.maxSupply?.toString() ?? 'none'
+      }
+    }
+    if (next!.totalMinted !== previous.totalMinted + mintedAmount) {
+      return {
+        code: 'INVALID_MINT_AUTHORITY',
+        message: `mint authority totalMinted ${next!.totalMinted} should be ${previous.totalMinted + mintedAmount}`,
+        field: 'totalMinted',
+        expected: (previous.totalMinted + mintedAmount).toString(),
+        actual: next!.totalMinted.toString()
+      }
+    }
+    if (next!.maxSupply !== undefined && next!.totalMinted > next!.maxSupply) {
+      return {
+        code: 'INVALID_MINT_AUTHORITY',
+        message: `minting ${mintedAmount} tokens exceeds the max supply of ${next!.maxSupply}`,
+        field: 'totalMinted',
+        expected: `at most ${next!.maxSupply}`,
+        actual: next!.totalMinted.toString()
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Keep only the transfer outputs whose metadata agrees with the registered
+   * definition of their token. Outputs without metadata are always fine.
+   */
+  private matchGenesisDefinition(
+    outputs: TokenOutputCandidate[],
+    token: TokenRegistryEntry | null,
+    rejections: TokenRejection[]
+  ): TokenOutputCandidate[] {
+    if (!token) {
+      for (const o of outputs) {
+        reject(rejections, {
+          outputIndex: o.outputIndex,
+          tokenId: o.tokenId,
+          code: 'UNKNOWN_TOKEN',
+          message: `token ${o.tokenId} is not registered (no genesis found)`,
+          field: 'tokenId'
+        })
+      }
+      return []
+    }
+
+    return outputs.filter(o => {
+      if (!o.metadata) {
+        return true
+      }
+      for (const field of DEFINITION_FIELDS) {
+        if (o.metadata[field] !== token[field]) {
+          reject(rejections, {
+            outputIndex: o.outputIndex,
+            tokenId: o.tokenId,
+            code: 'DEFINITION_MISMATCH',
+            message: `metadata.${field} does not match genesis (expected '${token[field]}', got '${o.metadata[field]}')`,
+            field: `metadata.${field}`,
+            expected: String(token[field]),
+            actual: String(o.metadata[field])
+          })
+          return false
+        }
+      }
+      return true
+    })
   }
 
   async getDocumentation(): Promise<string> {
@@ -118,16 +727,27 @@ Validates and tracks fungible token transactions on the BSV blockchain using spe
 
 ### Output Format (PushDrop - BRC-48)
 \`\`\`
-<lockingKey> OP_DROP <protocol> <tokenId> <amount> <ownerKey> [<metadata>]
+<lockingKey> OP_CHECKSIG <protocol> <version> <tokenId> <amount> <ownerKey> <metadata> OP_2DROP...
 \`\`\`
 
 ### Fields
-- **lockingKey**: 33-byte compressed public key (who can spend this UTXO)
+- **lockingKey**: 33-byte compressed public key (who can spend this UTXO),
+  derived from the ownerKey with the 'anyone' counterparty under protocol
+  \`[0, 'workshop tokens']\` and key ID \`'1'\`
 - **protocol**: 'TOKEN' (UTF-8 string)
-- **tokenId**: 32-byte hex identifier (unique per token type)
-- **amount**: 8-byte integer (token units, little-endian)
-- **ownerKey**: 33-byte identity key (who owns these tokens)
-- **metadata**: Optional JSON object with token information
+- **version**: 1-byte field layout version (currently 1)
+- **tokenId**: 32-byte hex identifier (unique per token type). Mint outputs
+  declare 32 zero bytes; the real tokenId is \`SHA-256(txid || vout)\` of the
+  mint output, with vout as a 4-byte little-endian integer
+- **amount**: 8-byte unsigned integer (token units, little-endian), covering
+  the full uint64 range. Amounts are strings in JSON (metadata and lookups)
+- **ownerKey**: 33-byte identity key (who owns these tokens), or empty
+- **metadata**: JSON object with token information, or empty
+
+Any fields after metadata (such as a PushDrop signature) are ignored.
+
+Unversioned outputs written by the original mint CLI
+(\`<protocol> <tokenId> <amount> <metadata>\`) are decoded as layout v0.
 
 ### Spendable Tokens
 Unlike OP_RETURN, PushDrop tokens are **spendable UTXOs**:
@@ -142,14 +762,16 @@ Unlike OP_RETURN, PushDrop tokens are **spendable UTXOs**:
 \`\`\`
 lockingKey: '02ea3bcf...' (33 bytes - minter's public key)
 protocol: 'TOKEN'
-tokenId: 'a1b2c3d4...' (32 bytes)
+version: 1
+tokenId: '00000000...' (32 zero bytes - resolved from the mint outpoint)
 amount: 1000000 (1 million tokens)
 ownerKey: '02ea3bcf...' (33 bytes - minter's identity key)
 metadata: {
   "name": "Workshop Token",
   "symbol": "WST",
   "decimals": 6,
-  "description": "Example fungible token"
+  "description": "Example fungible token",
+  "totalSupply": "1000000"
 }
 \`\`\`
 
@@ -157,21 +779,88 @@ metadata: {
 \`\`\`
 lockingKey: '03b1b8a7...' (33 bytes - recipient's public key)
 protocol: 'TOKEN'
-tokenId: 'a1b2c3d4...' (same as minted)
+version: 1
+tokenId: 'a1b2c3d4...' (SHA-256 of the mint outpoint)
 amount: 50000 (50k tokens)
 ownerKey: '03b1b8a7...' (33 bytes - recipient's identity key)
-metadata: {} (inherited from mint)
+metadata: empty (inherited from mint)
 \`\`\`
 
 ## Validation Rules
-1. Must have at least 5 fields (lockingKey, protocol, tokenId, amount, ownerKey)
+1. Must have at least 6 fields (protocol, version, tokenId, amount, ownerKey, metadata)
 2. LockingKey must be exactly 33 bytes (compressed public key)
 3. Protocol must be 'TOKEN'
-4. TokenId must be exactly 32 bytes
-5. Amount must be 8 bytes and greater than 0
-6. OwnerKey must be exactly 33 bytes (compressed public key)
-7. Metadata must be valid JSON if present
-8. Outputs not matching these rules are rejected
+4. Version must be a supported layout version
+5. TokenId must be exactly 32 bytes
+6. Amount must be 8 bytes and greater than 0
+7. OwnerKey must be exactly 33 bytes (compressed public key) if present
+8. Metadata must be a valid JSON object if present
+9. Outputs not matching these rules are rejected
+
+## Conservation Rules
+Token inputs are decoded from the source transactions in the submitted BEEF
+and their amounts are summed per tokenId.
+
+- **Transfer**: outputs for a tokenId that is spent by the transaction are
+  admitted only if their total, plus any burns, does not exceed the total
+  consumed. Any excess rejects every output and burn of that tokenId.
+- **Burn**: tokens are destroyed explicitly with an unspendable burn record,
+  \`OP_FALSE OP_RETURN <'TOKEN'> <version> <'BURN'> <tokenId> <amount>\`
+  (amount 8 bytes little-endian). A burn is only admitted in a transaction
+  that spends at least that much of the token. Consumed tokens that are
+  neither re-created nor burned are lost without a record.
+- **Mint (genesis)**: outputs for a tokenId that is not spent by the
+  transaction are treated as a mint. A mint must declare the zero tokenId (or
+  the tokenId derived from its own outpoint) and be a single output whose
+  amount equals \`metadata.totalSupply\`, with a non-empty \`name\` and
+  \`symbol\` and integer \`decimals\`. A tokenId can only be minted once.
+
+## Mint Authority
+A genesis with \`metadata.mintable: true\` must also create exactly one mint
+authority, a PushDrop output locked to the issuer:
+\`\`\`
+<lockingKey> OP_CHECKSIG <'TOKEN-AUTHORITY'> <version> <tokenId> <issuerKey> <maxSupply> <totalMinted> OP_2DROP...
+\`\`\`
+- **tokenId**: 32 zero bytes at genesis, meaning the token minted by the
+  genesis output of the same transaction
+- **maxSupply**: 8-byte cap on \`totalMinted\`, 0 when uncapped. Must equal
+  the optional \`metadata.maxSupply\` of the genesis
+- **totalMinted**: 8-byte running total of units ever minted, starting at the
+  genesis amount
+
+Additional supply can only be minted by a transaction that spends the
+current authority and re-creates exactly one authority with the same issuer
+and cap, and \`totalMinted\` advanced by the amount minted (token outputs
+plus burns, less token inputs) without exceeding the cap. Spending the
+authority without re-creating it renounces minting for good. Tokens without
+\`mintable\` have a fixed supply; their \`maxSupply\`, if given, must equal
+\`totalSupply\`.
+
+## Per-Token Definitions
+The genesis output of a tokenId defines its \`name\`, \`symbol\` and
+\`decimals\` (plus optional \`description\` and \`icon\` URL), which are
+recorded in the token registry when it is admitted. Every later output for
+that tokenId is checked against the registered definition and rejected if
+any of those fields differ.
+
+## Rejection Reasons
+Every output that is not admitted is recorded with a code, the offending
+field and the expected and actual values where there are any. The result of
+each transaction is kept by txid and can be fetched with the \`validation\`
+lookup query or \`GET /token-validations/:txid\`.
+
+- **NOT_A_TOKEN**: not a token output, burn or mint authority (e.g. change)
+- **MALFORMED**: token fields that do not decode
+- **INVALID_AMOUNT**: an amount of zero
+- **INVALID_METADATA**: metadata that is not an object, or a bad genesis field
+- **TOKEN_ID_MISMATCH**: a mint declaring a tokenId not derived from its outpoint
+- **ALREADY_MINTED**: a second genesis for the same tokenId
+- **INVALID_GENESIS**: a genesis with several outputs or the wrong supply
+- **INVALID_MINT_AUTHORITY**: a mint authority, or new supply, breaking its rules
+- **UNKNOWN_TOKEN**: a transfer of a tokenId that was never minted
+- **DEFINITION_MISMATCH**: metadata contradicting the registered definition
+- **INSUFFICIENT_INPUTS**: creating or burning more than the transaction spends
+- **INVALID_TRANSACTION**: the transaction itself could not be processed
 
 ## Usage
 - Mint Service: Creates new spendable token UTXOs
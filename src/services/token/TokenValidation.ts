@@ -0,0 +1,87 @@
+/**
+ * Why the token topic manager did not admit an output
+ */
+export type TokenRejectionCode =
+  | 'NOT_A_TOKEN'  // Not a token output, burn record or mint authority at all
+  | 'MALFORMED'  // Claims to be one, but its fields do not decode
+  | 'INVALID_AMOUNT'
+  | 'INVALID_METADATA'
+  | 'TOKEN_ID_MISMATCH'  // A mint declaring a tokenId not derived from its own outpoint
+  | 'ALREADY_MINTED'
+  | 'INVALID_GENESIS'  // Breaks a genesis rule (output count, initial supply)
+  | 'INVALID_MINT_AUTHORITY'
+  | 'UNKNOWN_TOKEN'  // A transfer of a tokenId with no registered genesis
+  | 'DEFINITION_MISMATCH'  // Metadata contradicting the registered definition
+  | 'INSUFFICIENT_INPUTS'  // Creates or burns more than the transaction spends
+  | 'INVALID_TRANSACTION'  // The transaction as a whole could not be processed
+
+export const TOKEN_REJECTION_CODES: TokenRejectionCode[] = [
+  'NOT_A_TOKEN',
+  'MALFORMED',
+  'INVALID_AMOUNT',
+  'INVALID_METADATA',
+  'TOKEN_ID_MISMATCH',
+  'ALREADY_MINTED',
+  'INVALID_GENESIS',
+  'INVALID_MINT_AUTHORITY',
+  'UNKNOWN_TOKEN',
+  'DEFINITION_MISMATCH',
+  'INSUFFICIENT_INPUTS',
+  'INVALID_TRANSACTION'
+]
+
+/**
+ * One output the topic manager rejected, and why
+ */
+export interface TokenRejection {
+  outputIndex?: number  // Absent for INVALID_TRANSACTION
+  code: TokenRejectionCode
+  message: string
+  tokenId?: string
+  field?: string  // The offending field, e.g. 'amount' or 'metadata.symbol'
+  expected?: string
+  actual?: string
+}
+
+/**
+ * The outcome of validating one transaction for tm_tokens
+ */
+export interface TokenValidationResult {
+  txid: string
+  admitted: number[]
+  rejections: TokenRejection[]
+  validatedAt: Date
+}
+
+/**
+ * Whether a rejection concerns an output meant as a token. Every wallet
+ * transaction has outputs that are not (such as BSV change), and those are
+ * rejected with NOT_A_TOKEN as a matter of course.
+ */
+export function isTokenRejection(rejection: TokenRejection): boolean {
+  return rejection.code !== 'NOT_A_TOKEN'
+}
+
+/**
+ * One-line form of a rejection, e.g.
+ * "Output 0: INVALID_GENESIS - genesis amount 999 does not match ... (metadata.totalSupply: expected 1000, got 999)"
+ */
+export function formatRejection(rejection: TokenRejection): string {
+  const where = rejection.outputIndex === undefined ? 'Transaction' : `Output ${rejection.outputIndex}`
+  const detail = rejection.field
+    ? ` (${rejection.field}${rejection.expected !== undefined ? `: expected ${rejection.expected}` : ''}${rejection.actual !== undefined ? `, got ${rejection.actual}` : ''})`
+    : ''
+  return `${where}: ${rejection.code} - ${rejection.message}${detail}`
+}
+
+/**
+ * JSON form of a validation result
+ */
+export function toValidationJson(result: TokenValidationResult) {
+  return {
+    ...result,
+    validatedAt: result.validatedAt.toISOString()
+  }
+}
+
+export type TokenValidationJson = ReturnType<typeof toValidationJson>
@@ -0,0 +1,287 @@
+import {
+  AbortActionArgs,
+  AbortActionResult,
+  Beef,
+  Broadcaster,
+  CreateActionArgs,
+  CreateActionResult,
+  LockingScript,
+  P2PKH,
+  PrivateKey,
+  ProtoWallet,
+  Random,
+  SatoshisPerKilobyte,
+  SignActionArgs,
+  SignActionResult,
+  Transaction,
+  UnlockingScript,
+  Utils
+} from '@bsv/sdk'
+import { existsSync, readFileSync } from 'fs'
+import { writeFileAtomic } from '../files/AtomicFile.js'
+
+/**
+ * A P2PKH output paying this wallet's address, with the BEEF needed to
+ * spend it (the transaction and its proven ancestry)
+ */
+export interface LocalUTXO {
+  txid: string
+  vout: number
+  satoshis: number
+  beef: string  // Hex BEEF of txid
+}
+
+export interface LocalWalletOptions {
+  utxoFile: string
+  broadcaster: Broadcaster
+  feeRate?: number  // Satoshis per kilobyte, 100 by default
+}
+
+/**
+ * A transaction built by createAction whose caller-supplied inputs still
+ * need unlocking scripts
+ */
+interface PendingAction {
+  tx: Transaction
+  callerInputs: number
+  funding: LocalUTXO[]
+  noSend: boolean
+}
+
+const DEFAULT_FEE_RATE = 100
+
+/**
+ * LocalWallet - A private-key wallet for running the apps headlessly.
+ *
+ * Key derivation and signatures (including the PushDrop token keys) come
+ * from ProtoWallet. Transactions are funded from P2PKH UTXOs of the key's
+ * address, which the wallet tracks in a local JSON file: add funds with
+ * importFunding, and change from every transaction is added back.
+ *
+ * Only what the apps use is supported: createAction (optionally spending
+ * caller inputs from inputBEEF, which are then signed through signAction),
+ * signAction and abortAction.
+ */
+export default class LocalWallet extends ProtoWallet {
+  private readonly pending = new Map<string, PendingAction>()
+  private readonly reserved = new Set<string>()  // Funding outpoints held by pending actions
+  private readonly feeModel: SatoshisPerKilobyte
+
+  constructor(private readonly privateKey: PrivateKey, private readonly options: LocalWalletOptions) {
+    super(privateKey)
+    this.feeModel = new SatoshisPerKilobyte(options.feeRate ?? DEFAULT_FEE_RATE)
+  }
+
+  /**
+   * The address funds must be sent to
+   */
+  get address(): string {
+    return this.privateKey.toPublicKey().toAddress()
+  }
+
+  /**
+   * Unspent funding outputs tracked in the local file
+   */
+  listFunding(): LocalUTXO[] {
+    if (!existsSync(this.options.utxoFile)) {
+      return []
+    }
+    return JSON.parse(readFileSync(this.options.utxoFile, 'utf8')).utxos as LocalUTXO[]
+  }
+
+  /**
+   * Track the outputs of a transaction that pay this wallet's address.
+   * Returns the outputs added.
+   */
+  importFunding(beef: number[]): LocalUTXO[] {
+    const tx = Transaction.fromBEEF(beef)
+    const txid = tx.id('hex')
+    const ownScript = new P2PKH().lock(this.address).toHex()
+    const known = new Set(this.listFunding().map(u => `${u.txid}.${u.vout}`))
+
+    const added = tx.outputs.flatMap((output, vout) =>
+      output.lockingScript.toHex() === ownScript && !known.has(`${txid}.${vout}`)
+        ? [{ txid, vout, satoshis: output.satoshis ?? 0, beef: tx.toHexBEEF() }]
+        : []
+    )
+    this.saveFunding([...this.listFunding(), ...added])
+    return added
+  }
+
+  async createAction(args: CreateActionArgs): Promise<CreateActionResult> {
+    const tx = new Transaction(args.version, [], [], args.lockTime)
+    const inputBEEF = args.inputBEEF ? Beef.fromBinary(args.inputBEEF) : undefined
+
+    // Caller inputs come first, in order, as the apps sign them by index
+    const callerInputs = args.inputs ?? []
+    for (const input of callerInputs) {
+      const [txid, vout] = input.outpoint.split('.')
+      const sourceTransaction = inputBEEF?.findAtomicTransaction(txid)
+      if (!sourceTransaction) {
+        throw new Error(`inputBEEF does not contain the source of input ${input.outpoint}`)
+      }
+      const unlockingScriptLength = input.unlockingScriptLength ?? 0
+      tx.addInput({
+        sourceTransaction,
+        sourceOutputIndex: Number(vout),
+        sequence: input.sequenceNumber,
+        unlockingScript: input.unlockingScript ? UnlockingScript.fromHex(input.unlockingScript) : undefined,
+        // Only used to size the fee; replaced by a placeholder before signing
+        unlockingScriptTemplate: input.unlockingScript ? undefined : {
+          sign: async () => new UnlockingScript(),
+          estimateLength: async () => unlockingScriptLength
+        }
+      })
+    }
+
+    for (const output of args.outputs ?? []) {
+      tx.addOutput({
+        lockingScript: LockingScript.fromHex(output.lockingScript),
+        satoshis: output.satoshis
+      })
+    }
+
+    const funding = await this.fund(tx)
+    const noSend = args.options?.noSend === true
+
+    if (callerInputs.some(input => !input.unlockingScript)) {
+      // Sign our own inputs now; their signatures do not cover the other
+      // inputs' unlocking scripts, so the caller can fill those in later
+      for (const input of tx.inputs.slice(0, callerInputs.length)) {
+        if (!input.unlockingScript) {
+          input.unlockingScriptTemplate = undefined
+          input.unlockingScript = new UnlockingScript()
+        }
+      }
+      await tx.sign()
+
+      const reference = Utils.toBase64(Random(16))
+      this.pending.set(reference, { tx, callerInputs: callerInputs.length, funding, noSend })
+      return {
+        signableTransaction: { tx: tx.toAtomicBEEF(), reference }
+      }
+    }
+
+    await tx.sign()
+    return await this.complete(tx, funding, noSend)
+  }
+
+  async signAction(args: SignActionArgs): Promise<SignActionResult> {
+    const action = this.pending.get(args.reference)
+    if (!action) {
+      throw new Error(`No pending action with reference ${args.reference}`)
+    }
+
+    for (let i = 0; i < action.callerInputs; i++) {
+      const spend = args.spends[i]
+      if (!spend) {
+        throw new Error(`No unlocking script provided for input ${i}`)
+      }
+      action.tx.inputs[i].unlockingScript = UnlockingScript.fromHex(spend.unlockingScript)
+    }
+
+    this.pending.delete(args.reference)
+    return await this.complete(action.tx, action.funding, action.noSend)
+  }
+
+  async abortAction(args: AbortActionArgs): Promise<AbortActionResult> {
+    const action = this.pending.get(args.reference)
+    if (!action) {
+      throw new Error(`No pending action with reference ${args.reference}`)
+    }
+    this.pending.delete(args.reference)
+    this.release(action.funding)
+    return { aborted: true }
+  }
+
+  /**
+   * Add funding inputs (largest first) and a change output until the
+   * outputs and fee are covered
+   */
+  private async fund(tx: Transaction): Promise<LocalUTXO[]> {
+    const available = this.listFunding()
+      .filter(u => !this.reserved.has(`${u.txid}.${u.vout}`))
+      .sort((a, b) => b.satoshis - a.satoshis)
+    const unlock = new P2PKH().unlock(this.privateKey)
+
+    tx.addOutput({
+      lockingScript: new P2PKH().lock(this.address),
+      change: true
+    })
+
+    const funding: LocalUTXO[] = []
+    for (;;) {
+      const fee = await this.feeModel.computeFee(tx)
+      const inputTotal = tx.inputs.reduce((sum, input) =>
+        sum + (input.sourceTransaction!.outputs[input.sourceOutputIndex].satoshis ?? 0), 0)
+      // The change output has no amount until fee() fills it in
+      const outputTotal = tx.outputs.reduce((sum, output) => sum + (output.change ? 0 : output.satoshis ?? 0), 0)
+      if (inputTotal - outputTotal - fee >= 0) {
+        break
+      }
+      const utxo = available.shift()
+      if (!utxo) {
+        throw new Error(`Insufficient funds in local wallet ${this.address}: send BSV to it and import the funding transaction`)
+      }
+      tx.addInput({
+        sourceTransaction: Transaction.fromHexBEEF(utxo.beef),
+        sourceOutputIndex: utxo.vout,
+        unlockingScriptTemplate: unlock
+      })
+      funding.push(utxo)
+    }
+
+    await tx.fee(this.feeModel)
+    for (const utxo of funding) {
+      this.reserved.add(`${utxo.txid}.${utxo.vout}`)
+    }
+    return funding
+  }
+
+  /**
+   * Broadcast a fully signed transaction (unless noSend) and update the
+   * tracked UTXOs: spent funding is removed and change is added
+   */
+  private async complete(tx: Transaction, funding: LocalUTXO[], noSend: boolean): Promise<CreateActionResult> {
+    try {
+      if (!noSend) {
+        const result = await tx.broadcast(this.options.broadcaster)
+        if (result.status !== 'success') {
+          throw new Error(`Broadcast failed: ${result.description}`)
+        }
+      }
+    } catch (error) {
+      this.release(funding)
+      throw error
+    }
+
+    const txid = tx.id('hex')
+    const spent = new Set(funding.map(u => `${u.txid}.${u.vout}`))
+    const ownScript = new P2PKH().lock(this.address).toHex()
+    const change = tx.outputs.flatMap((output, vout) =>
+      output.lockingScript.toHex() === ownScript
+        ? [{ txid, vout, satoshis: output.satoshis ?? 0, beef: tx.toHexBEEF() }]
+        : []
+    )
+    this.saveFunding([
+      ...this.listFunding().filter(u => !spent.has(`${u.txid}.${u.vout}`)),
+      ...change
+    ])
+    this.release(funding)
+
+    return { txid, tx: tx.toAtomicBEEF() }
+  }
+
+  private release(funding: LocalUTXO[]): void {
+    for (const utxo of funding) {
+      this.reserved.delete(`${utxo.txid}.${utxo.vout}`)
+    }
+  }
+
+  /**
+   * Write the UTXO file atomically
+   */
+  private saveFunding(utxos: LocalUTXO[]): void {
+    writeFileAtomic(this.options.utxoFile, JSON.stringify({ address: this.address, utxos }, null, 2))
+  }
+}
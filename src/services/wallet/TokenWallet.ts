@@ -0,0 +1,85 @@
+import { ARC, FetchHttpClient, PrivateKey, WalletClient, WalletInterface } from '@bsv/sdk'
+import LocalWallet from './LocalWallet.js'
+
+/**
+ * The part of a BRC-100 wallet the mint and wallet apps rely on: identity
+ * and PushDrop key derivation, signatures, and building, signing and
+ * broadcasting transactions. WalletClient (BSV Desktop Wallet) and
+ * LocalWallet (a private key) both provide it.
+ */
+export type TokenWallet = Pick<
+  WalletInterface,
+  'getPublicKey' | 'createSignature' | 'createAction' | 'signAction' | 'abortAction'
+>
+
+export type WalletBackend = 'desktop' | 'local'
+
+export interface TokenWalletOptions {
+  originator: string
+  backend?: string  // WALLET_BACKEND, 'desktop' by default
+  privateKey?: string  // Hex private key for the local backend
+  utxoFile?: string  // Where the local backend keeps its UTXOs
+  arcUrl?: string
+  arcApiKey?: string
+  feeRate?: number  // Local backend fee rate, satoshis per kilobyte
+}
+
+/**
+ * Create the wallet the apps talk to. The desktop backend connects to BSV
+ * Desktop Wallet; the local backend signs with a private key and funds
+ * transactions from UTXOs it tracks in a local file, so it runs headlessly.
+ */
+export function createTokenWallet(options: TokenWalletOptions): TokenWallet {
+  const backend = options.backend ?? 'desktop'
+
+  switch (backend) {
+    case 'desktop':
+      return new WalletClient('auto', options.originator)
+
+    case 'local': {
+      if (!options.privateKey) {
+        throw new Error('The local wallet backend needs a private key (MINTER_PRIVATE_KEY / WALLET_PRIVATE_KEY)')
+      }
+      const privateKey = PrivateKey.fromString(options.privateKey, 'hex')
+      return new LocalWallet(privateKey, {
+        utxoFile: options.utxoFile ?? `.local-wallet/${privateKey.toPublicKey().toAddress()}.json`,
+        // fetch works with http:// URLs too, such as the overlay's mock chain
+        broadcaster: new ARC(options.arcUrl ?? 'https://arc.taal.com', {
+          apiKey: options.arcApiKey,
+          httpClient: new FetchHttpClient(fetch)
+        }),
+        feeRate: options.feeRate
+      })
+    }
+
+    default:
+      throw new Error(`Unknown WALLET_BACKEND '${backend}' (expected 'desktop' or 'local')`)
+  }
+}
+
+/**
+ * How the apps name the wallet of a backend in their messages
+ */
+export function walletName(backend?: string): string {
+  return backend === 'local' ? 'the local wallet' : 'BSV Desktop Wallet'
+}
+
+/**
+ * What to check when the wallet of a backend cannot be used
+ *
+ * @param keyVariable Environment variable holding the local backend's key
+ */
+export function walletChecklist(backend: string | undefined, keyVariable: string): string[] {
+  if (backend === 'local') {
+    return [
+      `${keyVariable} is set to a hex private key`,
+      'The local wallet has BSV for fees (npm run token -- funds)'
+    ]
+  }
+  return [
+    'BSV Desktop Wallet is running',
+    'Your wallet is unlocked',
+    'Your wallet has BSV for fees (~$0.01)',
+    'Wallet connection is available'
+  ]
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { LogLevel, Logger, LoggerOptions, createLogger } from '../src/services/logging/Logger.js'
+
+/**
+ * A logger writing into an array instead of stdout/stderr
+ */
+function capture(options: LoggerOptions = {}) {
+  const lines: Array<{ line: string, level: LogLevel }> = []
+  const logger = new Logger({ ...options, write: (line, level) => lines.push({ line, level }) })
+  return { logger, lines }
+}
+
+describe('Logger', () => {
+  it('drops lines below its level', () => {
+    const { logger, lines } = capture({ level: 'warn' })
+    logger.debug('debug')
+    logger.info('info')
+    logger.warn('warn')
+    logger.error('error')
+    assert.deepEqual(lines.map(l => l.level), ['warn', 'error'])
+  })
+
+  it('writes text lines with their fields', () => {
+    const { logger, lines } = capture()
+    logger.info('Token admitted', { tokenId: 'ab', amount: 1000n, spent: undefined })
+    assert.match(lines[0].line, /^\S+ INFO  Token admitted tokenId=ab amount=1000$/)
+  })
+
+  it('writes JSON lines carrying the fields of child loggers', () => {
+    const { logger, lines } = capture({ json: true, fields: { component: 'lookup' } })
+    logger.child({ query: 'balance', lookupId: '0a1b' }).warn('Lookup failed', { error: new Error('boom') })
+    const { time, ...entry } = JSON.parse(lines[0].line)
+    assert.ok(!isNaN(Date.parse(time)))
+    assert.deepEqual(entry, { level: 'warn', msg: 'Lookup failed', component: 'lookup', query: 'balance', lookupId: '0a1b', error: 'boom' })
+  })
+
+  it('is configured from LOG_LEVEL and LOG_FORMAT', () => {
+    const logger = createLogger('storage', { LOG_LEVEL: 'DEBUG', LOG_FORMAT: 'json' })
+    assert.ok(logger.isEnabled('debug'))
+    assert.ok(!createLogger('storage', { LOG_LEVEL: 'silent' }).isEnabled('error'))
+    assert.ok(createLogger('storage', { LOG_LEVEL: 'nonsense' }).isEnabled('info'))
+    assert.ok(!createLogger('storage', {}).isEnabled('debug'))
+  })
+})
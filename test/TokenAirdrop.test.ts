@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  AirdropResult,
+  AirdropResults,
+  airdropFormatOf,
+  packBatches,
+  parseAirdropList,
+  pendingRecipients,
+  recordResults
+} from '../src/services/token/TokenAirdrop.js'
+import { newIdentityKey } from './helpers.js'
+
+const KEY_A = newIdentityKey()
+const KEY_B = newIdentityKey()
+
+function result(index: number, status: AirdropResult['status']): AirdropResult {
+  return { index, recipientKey: KEY_A, amount: '1', status, updatedAt: '2026-01-01T00:00:00.000Z' }
+}
+
+describe('airdrop lists', () => {
+  it('picks the format from the file name', () => {
+    assert.equal(airdropFormatOf('drop.JSON'), 'json')
+    assert.equal(airdropFormatOf('drop.csv'), 'csv')
+    assert.equal(airdropFormatOf('drop.txt'), 'csv')
+  })
+
+  it('parses CSV, skipping the header, comments and blank lines', () => {
+    const csv = `recipientKey,amount\n# team\n${KEY_A},1000\n\n"${KEY_B.toUpperCase()}", 25\n`
+    const { recipients, errors } = parseAirdropList(csv, 'csv')
+    assert.deepEqual(errors, [])
+    assert.deepEqual(recipients, [
+      { index: 0, recipientKey: KEY_A, amount: 1000n },
+      { index: 1, recipientKey: KEY_B, amount: 25n }
+    ])
+  })
+
+  it('reports bad CSV rows by index and keeps the good ones', () => {
+    const csv = `${KEY_A},10\nnot-a-key,10\n${KEY_B},0\n${KEY_B},1.5\n${KEY_B},7`
+    const { recipients, errors } = parseAirdropList(csv, 'csv')
+    assert.deepEqual(recipients.map(r => r.index), [0, 4])
+    assert.deepEqual(errors.map(e => e.index), [1, 2, 3])
+    assert.match(errors[0].error, /recipientKey/)
+    assert.equal(errors[0].entry, 'not-a-key,10')
+    assert.match(errors[1].error, /positive whole number/)
+  })
+
+  it('parses JSON, reporting rows without a key or amount', () => {
+    const json = JSON.stringify([
+      { recipientKey: KEY_A, amount: '1000' },
+      { recipientKey: KEY_B },
+      null,
+      { recipientKey: KEY_B, amount: '3' }
+    ])
+    const { recipients, errors } = parseAirdropList(json, 'json')
+    assert.deepEqual(recipients, [
+      { index: 0, recipientKey: KEY_A, amount: 1000n },
+      { index: 3, recipientKey: KEY_B, amount: 3n }
+    ])
+    assert.deepEqual(errors.map(e => e.index), [1, 2])
+  })
+
+  it('refuses JSON that is not an array', () => {
+    assert.throws(() => parseAirdropList('{"recipientKey":"02"}', 'json'), /must be an array/)
+  })
+})
+
+describe('airdrop batches', () => {
+  const size = (n: number) => n
+
+  it('packs in order up to the byte limit', () => {
+    assert.deepEqual(packBatches([40, 40, 30, 50, 10], size, 100, 10), [[40, 40], [30, 50, 10]])
+  })
+
+  it('packs up to the output limit', () => {
+    assert.deepEqual(packBatches([1, 1, 1, 1, 1], size, 100, 2), [[1, 1], [1, 1], [1]])
+  })
+
+  it('gives an oversized item a batch to itself', () => {
+    assert.deepEqual(packBatches([10, 150, 10], size, 100, 10), [[10], [150], [10]])
+  })
+
+  it('packs nothing into no batches', () => {
+    assert.deepEqual(packBatches([], size, 100, 10), [])
+  })
+})
+
+describe('airdrop resume', () => {
+  const recipients = [0, 1, 2, 3].map(index => ({ index, recipientKey: KEY_A, amount: 1n }))
+
+  it('sends only the recipients never tried or failed', () => {
+    const results = [result(0, 'sent'), result(1, 'failed'), result(2, 'unsubmitted')]
+    assert.deepEqual(pendingRecipients(recipients, results).map(r => r.index), [1, 3])
+  })
+
+  it('replaces earlier outcomes of the same rows, in row order', () => {
+    const results: AirdropResults = {
+      tokenId: 'ab'.repeat(32),
+      source: 'drop.csv',
+      results: [result(2, 'failed'), result(0, 'unsubmitted')],
+      spent: [],
+      unsubmitted: []
+    }
+    recordResults(results, [result(2, 'sent'), result(1, 'failed')])
+    assert.deepEqual(results.results.map(r => [r.index, r.status]), [[0, 'unsubmitted'], [1, 'failed'], [2, 'sent']])
+  })
+})
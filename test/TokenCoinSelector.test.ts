@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  COIN_SELECTORS,
+  CoinSelectionStrategy,
+  excludeOutpoints,
+  selectTokenUTXOs
+} from '../src/services/token/TokenCoinSelector.js'
+
+const STRATEGIES = Object.keys(COIN_SELECTORS) as CoinSelectionStrategy[]
+
+/**
+ * UTXOs with the given amounts, as decimal strings like the overlay returns
+ */
+function utxos(...amounts: number[]) {
+  return amounts.map((amount, outputIndex) => ({ txid: 'ab'.repeat(32), outputIndex, amount: amount.toString() }))
+}
+
+const amounts = (selected: Array<{ amount: string }>) => selected.map(u => Number(u.amount))
+
+describe('coin selection strategies', () => {
+  it('spends the largest UTXOs first', () => {
+    const selection = selectTokenUTXOs(utxos(10, 50, 30), 60n, 'largest-first')
+    assert.deepEqual(amounts(selection.selected), [50, 30])
+    assert.equal(selection.total, 80n)
+    assert.equal(selection.change, 20n)
+  })
+
+  it('spends the smallest UTXOs first', () => {
+    const selection = selectTokenUTXOs(utxos(10, 50, 1, 2), 3n, 'smallest-first')
+    assert.deepEqual(amounts(selection.selected), [1, 2])
+    assert.equal(selection.change, 0n)
+  })
+
+  it('finds an exact match where largest-first would leave change', () => {
+    const selection = selectTokenUTXOs(utxos(10, 7, 4, 3), 11n, 'exact-match')
+    assert.deepEqual(amounts(selection.selected), [7, 4])
+    assert.equal(selection.change, 0n)
+  })
+
+  it('falls back to largest-first with change when no subset matches', () => {
+    const selection = selectTokenUTXOs(utxos(10, 7, 4), 6n, 'exact-match')
+    assert.deepEqual(amounts(selection.selected), [10])
+    assert.equal(selection.change, 4n)
+  })
+
+  it('gives up the exact-match search after its cap on tries', () => {
+    // Only even amounts and an odd target: no subset matches, and the
+    // search space is far beyond the cap
+    const selection = selectTokenUTXOs(utxos(...new Array(40).fill(2)), 41n, 'exact-match', 40)
+    assert.equal(selection.selected.length, 21)
+    assert.equal(selection.change, 1n)
+  })
+
+  it('picks a random selection covering the target', () => {
+    const available = utxos(5, 5, 5, 5, 5)
+    const selection = selectTokenUTXOs(available, 12n, 'random')
+    assert.equal(selection.selected.length, 3)
+    assert.equal(new Set(selection.selected).size, 3)
+    assert.ok(selection.selected.every(u => available.includes(u)))
+  })
+})
+
+describe('coin selection limits', () => {
+  it('refuses a target above the balance with every strategy', () => {
+    for (const strategy of STRATEGIES) {
+      assert.throws(() => selectTokenUTXOs(utxos(10, 20), 31n, strategy), /Insufficient balance. Available: 30, Requested: 31/)
+    }
+  })
+
+  it('refuses a target it cannot cover within maxInputs with every strategy', () => {
+    for (const strategy of STRATEGIES) {
+      assert.throws(() => selectTokenUTXOs(utxos(1, 1, 1, 1), 3n, strategy, 2), /at most 2 inputs/)
+    }
+  })
+
+  it('keeps an exact match within maxInputs', () => {
+    // 6 = 3 + 3 fits in two inputs; 6 = 2 + 2 + 2 does not
+    const selection = selectTokenUTXOs(utxos(2, 2, 2, 3, 3), 6n, 'exact-match', 2)
+    assert.deepEqual(amounts(selection.selected), [3, 3])
+  })
+
+  it('refuses unknown strategies', () => {
+    assert.throws(() => selectTokenUTXOs(utxos(1), 1n, 'biggest' as CoinSelectionStrategy), /Unknown coin selection strategy/)
+  })
+})
+
+describe('excluded outpoints', () => {
+  it('leaves out excluded outpoints before selecting', () => {
+    const available = excludeOutpoints(utxos(50, 30, 20), new Set([`${'ab'.repeat(32)}.0`]))
+    assert.deepEqual(amounts(available), [30, 20])
+    const selection = selectTokenUTXOs(available, 40n, 'largest-first')
+    assert.deepEqual(amounts(selection.selected), [30, 20])
+  })
+
+  it('cannot cover a target once the outpoints that would have are excluded', () => {
+    const available = excludeOutpoints(utxos(50, 5), new Set([`${'ab'.repeat(32)}.0`]))
+    assert.throws(() => selectTokenUTXOs(available, 40n, 'largest-first'), /Insufficient balance/)
+  })
+})
@@ -0,0 +1,175 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Transaction } from '@bsv/sdk'
+import TokenLookupService from '../src/services/token/TokenLookupService.js'
+import { deriveTokenId } from '../src/services/token/TokenId.js'
+import { createBurnScript, lockMintAuthority, lockTokenOutput } from '../src/services/token/TokenOutput.js'
+import { TestMongo, admit, buildTx, genesisTx, newIdentityKey, spend, startMongo, tokenMetadata } from './helpers.js'
+
+describe('TokenLookupService', () => {
+  let mongo: TestMongo
+  let lookupService: ReturnType<typeof TokenLookupService>
+
+  const alice = newIdentityKey()
+  const bob = newIdentityKey()
+  let genesis: Transaction
+  let transfer: Transaction
+  let burn: Transaction
+  let tokenId: string
+
+  const lookup = async (query: Record<string, unknown>): Promise<any[]> =>
+    await lookupService.lookup({ service: 'ls_tokens', query }) as any[]
+
+  // Alice mints 1000, sends 300 to Bob, then burns 200 of her 700
+  before(async () => {
+    mongo = await startMongo()
+    lookupService = TokenLookupService(mongo.db)
+
+    genesis = await genesisTx(alice)
+    tokenId = deriveTokenId(genesis.id('hex'), 0)
+    await admit(lookupService, genesis, [0])
+
+    transfer = buildTx([{ tx: genesis, outputIndex: 0 }], [
+      await lockTokenOutput({ tokenId, amount: 300n, ownerKey: bob }),
+      await lockTokenOutput({ tokenId, amount: 700n, ownerKey: alice })
+    ])
+    await admit(lookupService, transfer, [0, 1])
+    await spend(lookupService, transfer, 0)
+
+    burn = buildTx([{ tx: transfer, outputIndex: 1 }], [
+      createBurnScript({ tokenId, amount: 200n }),
+      await lockTokenOutput({ tokenId, amount: 500n, ownerKey: alice })
+    ])
+    await admit(lookupService, burn, [0, 1])
+    await spend(lookupService, burn, 0)
+  })
+
+  after(async () => {
+    await mongo.stop()
+  })
+
+  it('answers balance queries per owner', async () => {
+    const aliceUtxos = await lookup({ type: 'balance', tokenId, ownerKey: alice })
+    assert.deepEqual(aliceUtxos.map(u => [u.txid, u.outputIndex, u.amount]), [[burn.id('hex'), 1, '500']])
+    assert.equal(aliceUtxos[0].symbol, 'TST')
+
+    const { items: bobBalances } = await lookupService.storageManager.getAllBalances(bob)
+    assert.deepEqual(bobBalances.map(b => [b.tokenId, b.totalAmount, b.utxoCount]), [[tokenId, 300n, 1]])
+  })
+
+  it('lists only unspent outputs', async () => {
+    const utxos = await lookup({ type: 'utxos', tokenId })
+    assert.deepEqual(utxos.map(u => [u.txid, u.outputIndex, u.amount]).sort(), [
+      [transfer.id('hex'), 0, '300'],
+      [burn.id('hex'), 1, '500']
+    ].sort())
+    assert.equal(utxos.find(u => u.ownerKey === bob).lockingScript, transfer.outputs[0].lockingScript.toHex())
+  })
+
+  it('registers the definition, served over REST only', async () => {
+    const token = await lookupService.storageManager.getToken(tokenId)
+    assert.equal(token?.name, 'Test Token')
+    assert.equal(token?.genesisTxid, genesis.id('hex'))
+    assert.equal(token?.issuerKey, alice)
+    assert.equal(token?.maxSupply, 1000n)
+    assert.equal(token?.totalMinted, 1000n)
+
+    const { items: [match] } = await lookupService.storageManager.searchTokens('ts')
+    assert.equal(match.tokenId, tokenId)
+
+    // Registry entries are not outputs the engine could return
+    assert.deepEqual(await lookup({ type: 'token', tokenId }), [])
+  })
+
+  it('accounts for the supply, served over REST only', async () => {
+    const supply = await lookupService.storageManager.getSupply(tokenId)
+    assert.deepEqual(supply, {
+      tokenId,
+      minted: 1000n,
+      burned: 200n,
+      unaccounted: 0n,
+      circulating: 800n,
+      maxSupply: 1000n,
+      holderCount: 2,
+      utxoCount: 2
+    })
+
+    // Aggregates are not outputs the engine could return
+    assert.deepEqual(await lookup({ type: 'supply', tokenId }), [])
+  })
+
+  it('resolves the genesis outpoint', async () => {
+    const [result] = await lookup({ type: 'genesis', tokenId })
+    assert.equal(result.txid, genesis.id('hex'))
+    assert.equal(result.outputIndex, 0)
+    assert.equal(result.amount, '1000')
+    assert.deepEqual(await lookup({ type: 'genesis', tokenId: 'ab'.repeat(32) }), [])
+  })
+
+  it('keeps the history including spent outputs and burns', async () => {
+    const history = await lookup({ type: 'history', tokenId, order: 'asc' })
+    assert.deepEqual(history.map(h => [h.amount, h.spent, h.burn]), [
+      ['1000', true, false],
+      ['300', false, false],
+      ['700', true, false],
+      ['200', true, true],
+      ['500', false, false]
+    ])
+  })
+
+  it('reconstructs transfers', async () => {
+    const { items: transfers } = await lookupService.storageManager.getTransfers(tokenId, bob)
+    assert.equal(transfers.length, 1)
+    assert.equal(transfers[0].txid, transfer.id('hex'))
+    assert.equal(transfers[0].kind, 'transfer')
+    assert.equal(transfers[0].net[bob], 300n)
+    assert.equal(transfers[0].net[alice], -300n)
+  })
+
+  it('pages results with a cursor', async () => {
+    const first = await lookup({ type: 'history', tokenId, order: 'asc', pageSize: 2 })
+    assert.equal(first.length, 2)
+    const second = await lookup({ type: 'history', tokenId, order: 'asc', pageSize: 2, cursor: first[1].nextCursor })
+    assert.deepEqual(second.map(h => h.amount), ['700', '200'])
+  })
+
+  it('tracks the mint authority of a mintable token', async () => {
+    const issuer = newIdentityKey()
+    const mintable = await genesisTx(issuer, tokenMetadata({ mintable: true }))
+    const mintableId = deriveTokenId(mintable.id('hex'), 0)
+    await admit(lookupService, mintable, [0, 1])
+
+    const [authority] = await lookup({ type: 'authority', tokenId: mintableId })
+    assert.deepEqual([authority.txid, authority.outputIndex, authority.issuerKey, authority.totalMinted], [
+      mintable.id('hex'), 1, issuer, '1000'
+    ])
+
+    // Re-mint 500, moving the authority on
+    const remint = buildTx([{ tx: mintable, outputIndex: 1 }], [
+      await lockTokenOutput({ tokenId: mintableId, amount: 500n, ownerKey: issuer }),
+      await lockMintAuthority({ tokenId: mintableId, issuerKey: issuer, totalMinted: 1500n })
+    ])
+    await admit(lookupService, remint, [0, 1])
+    await spend(lookupService, remint, 0)
+
+    const [moved] = await lookup({ type: 'authority', tokenId: mintableId })
+    assert.deepEqual([moved.txid, moved.totalMinted], [remint.id('hex'), '1500'])
+    const supply = await lookupService.storageManager.getSupply(mintableId)
+    assert.equal(supply.minted, 1500n)
+  })
+
+  it('forgets evicted outputs', async () => {
+    const owner = newIdentityKey()
+    const evicted = await genesisTx(owner)
+    const evictedId = deriveTokenId(evicted.id('hex'), 0)
+    await admit(lookupService, evicted, [0])
+    await lookupService.outputEvicted(evicted.id('hex'), 0)
+    assert.deepEqual((await lookupService.storageManager.getAllBalances(owner)).items, [])
+    assert.deepEqual(await lookup({ type: 'utxos', tokenId: evictedId }), [])
+  })
+
+  it('answers unknown or malformed queries with nothing', async () => {
+    assert.deepEqual(await lookup({ type: 'nonsense' }), [])
+    assert.deepEqual(await lookup({ type: 'utxos', tokenId, ownerKey: 42 }), [])
+  })
+})
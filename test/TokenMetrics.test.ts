@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import TokenMetrics from '../src/services/metrics/TokenMetrics.js'
+import TokenStorageManager from '../src/services/token/TokenStorageManager.js'
+
+/**
+ * The value of one series in the exposition text, e.g.
+ * sample(text, 'token_outputs_rejected_total{reason="UNKNOWN_TOKEN"}')
+ */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find(l => l.startsWith(`${series} `))
+  return line === undefined ? undefined : Number(line.slice(series.length + 1))
+}
+
+describe('TokenMetrics', () => {
+  it('counts admissions and rejections, starting every series at zero', async () => {
+    const metrics = new TokenMetrics({ defaultMetrics: false })
+    metrics.outputAdmitted('genesis')
+    metrics.outputAdmitted('transfer')
+    metrics.outputAdmitted('transfer')
+    metrics.outputRejected('INSUFFICIENT_INPUTS')
+
+    const text = await metrics.render()
+    assert.equal(sample(text, 'token_outputs_admitted_total{kind="transfer"}'), 2)
+    assert.equal(sample(text, 'token_outputs_admitted_total{kind="burn"}'), 0)
+    assert.equal(sample(text, 'token_outputs_rejected_total{reason="INSUFFICIENT_INPUTS"}'), 1)
+    assert.equal(sample(text, 'token_outputs_rejected_total{reason="UNKNOWN_TOKEN"}'), 0)
+  })
+
+  it('times lookups by query type and outcome', async () => {
+    const metrics = new TokenMetrics({ defaultMetrics: false })
+    metrics.startLookup('balance')('ok')
+    metrics.startLookup('balance')('error')
+
+    const text = await metrics.render()
+    assert.equal(sample(text, 'token_lookups_total{query="balance",outcome="ok"}'), 1)
+    assert.equal(sample(text, 'token_lookups_total{query="balance",outcome="error"}'), 1)
+    assert.equal(sample(text, 'token_lookup_duration_seconds_count{query="balance"}'), 2)
+  })
+
+  it('reads the gauges from storage, counting failed reads', async () => {
+    const metrics = new TokenMetrics({ defaultMetrics: false })
+    metrics.trackStorage({
+      countTokens: async () => 3,
+      countUnspentOutputs: async () => { throw new Error('connection lost') }
+    } as unknown as TokenStorageManager)
+
+    const text = await metrics.render()
+    assert.equal(sample(text, 'token_registered_tokens'), 3)
+    assert.equal(sample(text, 'token_storage_errors_total{operation="count-unspent-outputs"}'), 1)
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { LockingScript, OP, PrivateKey, ProtoWallet, Script, Spend, Utils } from '@bsv/sdk'
+import { GENESIS_TOKEN_ID, deriveTokenId, resolveTokenId } from '../src/services/token/TokenId.js'
+import {
+  MAX_TOKEN_AMOUNT,
+  TOKEN_PROTOCOL,
+  createBurnScript,
+  decodeBurnScript,
+  decodeMintAuthorityScript,
+  decodeTokenFields,
+  decodeTokenScript,
+  encodeTokenFields,
+  lockMintAuthority,
+  lockTokenOutput,
+  parseTokenAmount,
+  unlockTokenOutput
+} from '../src/services/token/TokenOutput.js'
+import { buildTx, newIdentityKey } from './helpers.js'
+
+const TOKEN_ID = 'ab'.repeat(32)
+
+describe('token output fields', () => {
+  it('round-trips every field', () => {
+    const output = { tokenId: TOKEN_ID, amount: 42n, ownerKey: newIdentityKey(), metadata: { name: 'Gold', symbol: 'GLD' } }
+    assert.deepEqual(decodeTokenFields(encodeTokenFields(output)), { version: 1, ...output })
+  })
+
+  it('round-trips without owner or metadata', () => {
+    const decoded = decodeTokenFields(encodeTokenFields({ tokenId: TOKEN_ID, amount: 1n }))
+    assert.deepEqual(decoded, { version: 1, tokenId: TOKEN_ID, amount: 1n, ownerKey: undefined, metadata: undefined })
+  })
+
+  it('round-trips the largest amount', () => {
+    assert.equal(decodeTokenFields(encodeTokenFields({ tokenId: TOKEN_ID, amount: MAX_TOKEN_AMOUNT })).amount, MAX_TOKEN_AMOUNT)
+  })
+
+  it('refuses amounts outside uint64', () => {
+    assert.throws(() => encodeTokenFields({ tokenId: TOKEN_ID, amount: MAX_TOKEN_AMOUNT + 1n }), /out of range/)
+    assert.throws(() => encodeTokenFields({ tokenId: TOKEN_ID, amount: -1n }), /out of range/)
+  })
+
+  it('decodes the unversioned v0 layout', () => {
+    const amount = new Utils.Writer()
+    amount.writeUInt64LE(500)
+    const fields = [
+      Utils.toArray(TOKEN_PROTOCOL, 'utf8'),
+      Utils.toArray(TOKEN_ID, 'hex'),
+      amount.toArray(),
+      Utils.toArray(JSON.stringify({ name: 'Old' }), 'utf8')
+    ]
+    assert.deepEqual(decodeTokenFields(fields), { version: 0, tokenId: TOKEN_ID, amount: 500n, metadata: { name: 'Old' } })
+  })
+
+  it('rejects other protocols, versions and malformed fields', () => {
+    const fields = encodeTokenFields({ tokenId: TOKEN_ID, amount: 1n })
+    assert.throws(() => decodeTokenFields([Utils.toArray('OTHER', 'utf8'), ...fields.slice(1)]), /field\[0\]/)
+    assert.throws(() => decodeTokenFields([fields[0], [2], ...fields.slice(2)]), /unsupported token layout version/)
+    assert.throws(() => decodeTokenFields(fields.slice(0, 4)), /insufficient fields/)
+    assert.throws(() => decodeTokenFields([fields[0], fields[1], [1, 2, 3], ...fields.slice(3)]), /tokenId must be 32 bytes/)
+    assert.throws(() => decodeTokenFields([...fields.slice(0, 3), [1, 2], ...fields.slice(4)]), /amount must be 8 bytes/)
+  })
+})
+
+describe('token locking scripts', () => {
+  it('round-trips through PushDrop', async () => {
+    const ownerKey = newIdentityKey()
+    const script = await lockTokenOutput({ tokenId: TOKEN_ID, amount: 1234n, ownerKey, metadata: { note: 'hi' } })
+    const decoded = decodeTokenScript(LockingScript.fromHex(script.toHex()))
+    assert.deepEqual(decoded, { version: 1, tokenId: TOKEN_ID, amount: 1234n, ownerKey, metadata: { note: 'hi' } })
+  })
+
+  it('can be spent by the owner and nobody else', async () => {
+    const owner = PrivateKey.fromRandom()
+    const ownerWallet = new ProtoWallet(owner)
+    const { publicKey: ownerKey } = await ownerWallet.getPublicKey({ identityKey: true })
+    const lockingScript = await lockTokenOutput({ tokenId: TOKEN_ID, amount: 10n, ownerKey })
+    const source = buildTx([], [lockingScript])
+
+    const evaluate = async (wallet: ProtoWallet) => {
+      const spending = buildTx([{ tx: source, outputIndex: 0 }], [lockingScript])
+      spending.inputs[0].unlockingScript = await unlockTokenOutput(wallet, undefined, 1, lockingScript).sign(spending, 0)
+      try {
+        return new Spend({
+          sourceTXID: source.id('hex'),
+          sourceOutputIndex: 0,
+          sourceSatoshis: 1,
+          lockingScript,
+          transactionVersion: spending.version,
+          otherInputs: [],
+          unlockingScript: spending.inputs[0].unlockingScript,
+          inputSequence: spending.inputs[0].sequence ?? 0xffffffff,
+          inputIndex: 0,
+          outputs: spending.outputs,
+          lockTime: spending.lockTime
+        }).validate()
+      } catch {
+        return false
+      }
+    }
+
+    assert.equal(await evaluate(ownerWallet), true)
+    assert.equal(await evaluate(new ProtoWallet(PrivateKey.fromRandom())), false)
+  })
+})
+
+describe('burn records', () => {
+  it('round-trip', () => {
+    const script = createBurnScript({ tokenId: TOKEN_ID, amount: 77n })
+    assert.deepEqual(decodeBurnScript(LockingScript.fromHex(script.toHex())), { tokenId: TOKEN_ID, amount: 77n })
+  })
+
+  it('are not confused with other scripts', async () => {
+    const otherReturn = new LockingScript([
+      { op: OP.OP_FALSE },
+      { op: OP.OP_RETURN, data: new Script().writeBin(Utils.toArray('hello', 'utf8')).toBinary() }
+    ])
+    assert.equal(decodeBurnScript(otherReturn), undefined)
+    assert.equal(decodeBurnScript(await lockTokenOutput({ tokenId: TOKEN_ID, amount: 1n, ownerKey: newIdentityKey() })), undefined)
+  })
+})
+
+describe('mint authorities', () => {
+  it('round-trip with and without a cap', async () => {
+    const issuerKey = newIdentityKey()
+    for (const maxSupply of [5000n, undefined]) {
+      const script = await lockMintAuthority({ tokenId: TOKEN_ID, issuerKey, maxSupply, totalMinted: 1000n })
+      assert.deepEqual(decodeMintAuthorityScript(script), { version: 1, tokenId: TOKEN_ID, issuerKey, maxSupply, totalMinted: 1000n })
+    }
+  })
+
+  it('are not confused with token outputs', async () => {
+    const token = await lockTokenOutput({ tokenId: TOKEN_ID, amount: 1n, ownerKey: newIdentityKey() })
+    assert.equal(decodeMintAuthorityScript(token), undefined)
+    const authority = await lockMintAuthority({ tokenId: TOKEN_ID, issuerKey: newIdentityKey(), totalMinted: 1n })
+    assert.throws(() => decodeTokenScript(authority), /field\[0\]/)
+  })
+})
+
+describe('token ids and amounts', () => {
+  it('derives ids from the genesis outpoint', () => {
+    const txid = 'cd'.repeat(32)
+    // SHA-256(txid || vout as uint32LE)
+    const expected = createHash('sha256').update(Buffer.from(`${txid}03000000`, 'hex')).digest('hex')
+    assert.equal(deriveTokenId(txid, 3), expected)
+    assert.notEqual(deriveTokenId(txid, 0), deriveTokenId(txid, 1))
+    assert.equal(resolveTokenId(GENESIS_TOKEN_ID, txid, 3), deriveTokenId(txid, 3))
+    assert.equal(resolveTokenId(TOKEN_ID, txid, 3), TOKEN_ID)
+  })
+
+  it('parses whole amounts within uint64', () => {
+    assert.equal(parseTokenAmount('18446744073709551615'), MAX_TOKEN_AMOUNT)
+    assert.equal(parseTokenAmount(12), 12n)
+    assert.equal(parseTokenAmount(12n), 12n)
+    for (const bad of ['18446744073709551616', '-1', '1.5', '1e3', '', 1.5, -1, null, undefined, {}]) {
+      assert.equal(parseTokenAmount(bad), undefined, `${String(bad)} should not parse`)
+    }
+  })
+})
@@ -0,0 +1,187 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { Transaction } from '@bsv/sdk'
+import TokenLookupService from '../src/services/token/TokenLookupService.js'
+import TokenTopicManager from '../src/services/token/TokenTopicManager.js'
+import { GENESIS_TOKEN_ID, deriveTokenId } from '../src/services/token/TokenId.js'
+import { createBurnScript, lockMintAuthority, lockTokenOutput } from '../src/services/token/TokenOutput.js'
+import { TestMongo, admit, buildTx, genesisTx, newIdentityKey, startMongo, tokenMetadata } from './helpers.js'
+
+describe('TokenTopicManager', () => {
+  let mongo: TestMongo
+  let lookupService: ReturnType<typeof TokenLookupService>
+  let topicManager: TokenTopicManager
+
+  before(async () => {
+    mongo = await startMongo()
+    lookupService = TokenLookupService(mongo.db)
+    topicManager = new TokenTopicManager(lookupService.storageManager)
+  })
+
+  after(async () => {
+    await mongo.stop()
+  })
+
+  const admitted = async (tx: Transaction, previousCoins: number[] = []) =>
+    (await topicManager.identifyAdmissibleOutputs(tx.toBEEF(), previousCoins)).outputsToAdmit
+
+  /**
+   * The recorded rejections of a validated transaction, as [code, field, expected, actual]
+   */
+  const rejections = async (tx: Transaction) =>
+    (await lookupService.storageManager.getValidation(tx.id('hex')))!.rejections
+      .map(r => [r.code, r.field, r.expected, r.actual])
+
+  /**
+   * Mint a token and register it, as the overlay would on submission
+   */
+  const mint = async (ownerKey: string, metadata: Record<string, unknown> = tokenMetadata()) => {
+    const genesis = await genesisTx(ownerKey, metadata)
+    const outputs = await admitted(genesis)
+    await admit(lookupService, genesis, outputs)
+    return { genesis, tokenId: deriveTokenId(genesis.id('hex'), 0) }
+  }
+
+  describe('genesis', () => {
+    it('admits a mint of the declared supply', async () => {
+      assert.deepEqual(await admitted(await genesisTx(newIdentityKey())), [0])
+    })
+
+    it('rejects a mint that does not match metadata.totalSupply', async () => {
+      const ownerKey = newIdentityKey()
+      const tx = buildTx([], [await lockTokenOutput({ tokenId: GENESIS_TOKEN_ID, amount: 999n, ownerKey, metadata: tokenMetadata() })])
+      assert.deepEqual(await admitted(tx), [])
+      assert.deepEqual(await rejections(tx), [['INVALID_GENESIS', 'amount', '1000', '999']])
+    })
+
+    it('rejects a mint without a name or symbol', async () => {
+      assert.deepEqual(await admitted(await genesisTx(newIdentityKey(), tokenMetadata({ name: '' }))), [])
+      assert.deepEqual(await admitted(await genesisTx(newIdentityKey(), tokenMetadata({ symbol: undefined }))), [])
+    })
+
+    it('rejects a mint declaring someone else\'s tokenId', async () => {
+      const { tokenId } = await mint(newIdentityKey())
+      const tx = buildTx([], [await lockTokenOutput({ tokenId, amount: 1000n, ownerKey: newIdentityKey(), metadata: tokenMetadata() })])
+      assert.deepEqual(await admitted(tx), [])
+    })
+
+    it('admits a mintable genesis only with its mint authority', async () => {
+      const metadata = tokenMetadata({ mintable: true, maxSupply: '5000' })
+      assert.deepEqual(await admitted(await genesisTx(newIdentityKey(), metadata)), [0, 1])
+
+      const ownerKey = newIdentityKey()
+      const withoutAuthority = buildTx([], [await lockTokenOutput({ tokenId: GENESIS_TOKEN_ID, amount: 1000n, ownerKey, metadata })])
+      assert.deepEqual(await admitted(withoutAuthority), [])
+    })
+  })
+
+  describe('transfers', () => {
+    it('admits outputs that conserve the spent amount', async () => {
+      const ownerKey = newIdentityKey()
+      const { genesis, tokenId } = await mint(ownerKey)
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId, amount: 300n, ownerKey: newIdentityKey() }),
+        await lockTokenOutput({ tokenId, amount: 700n, ownerKey })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [0, 1])
+    })
+
+    it('rejects outputs creating more than was spent', async () => {
+      const ownerKey = newIdentityKey()
+      const { genesis, tokenId } = await mint(ownerKey)
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId, amount: 300n, ownerKey: newIdentityKey() }),
+        await lockTokenOutput({ tokenId, amount: 701n, ownerKey })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [])
+      assert.deepEqual(await rejections(tx), [
+        ['INSUFFICIENT_INPUTS', 'amount', 'at most 1000', '1001'],
+        ['INSUFFICIENT_INPUTS', 'amount', 'at most 1000', '1001']
+      ])
+    })
+
+    it('rejects a transfer of a token that was never minted', async () => {
+      const source = buildTx([], [await lockTokenOutput({ tokenId: 'ab'.repeat(32), amount: 10n, ownerKey: newIdentityKey() })])
+      const tx = buildTx([{ tx: source, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId: 'ab'.repeat(32), amount: 10n, ownerKey: newIdentityKey() })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [])
+    })
+
+    it('rejects metadata that contradicts the genesis definition', async () => {
+      const { genesis, tokenId } = await mint(newIdentityKey())
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId, amount: 1000n, ownerKey: newIdentityKey(), metadata: tokenMetadata({ symbol: 'FAKE' }) })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [])
+      assert.deepEqual(await rejections(tx), [['DEFINITION_MISMATCH', 'metadata.symbol', 'TST', 'FAKE']])
+    })
+
+    it('ignores inputs that are not previous coins', async () => {
+      const { genesis, tokenId } = await mint(newIdentityKey())
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId, amount: 1000n, ownerKey: newIdentityKey() })
+      ])
+      assert.deepEqual(await admitted(tx, []), [])
+    })
+  })
+
+  describe('burns', () => {
+    it('admits a burn of spent tokens', async () => {
+      const ownerKey = newIdentityKey()
+      const { genesis, tokenId } = await mint(ownerKey)
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        createBurnScript({ tokenId, amount: 400n }),
+        await lockTokenOutput({ tokenId, amount: 600n, ownerKey })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [0, 1])
+    })
+
+    it('rejects a burn when no tokens are spent', async () => {
+      const { tokenId } = await mint(newIdentityKey())
+      assert.deepEqual(await admitted(buildTx([], [createBurnScript({ tokenId, amount: 1n })])), [])
+    })
+
+    it('rejects burning more than was spent', async () => {
+      const { genesis, tokenId } = await mint(newIdentityKey())
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [createBurnScript({ tokenId, amount: 1001n })])
+      assert.deepEqual(await admitted(tx, [0]), [])
+    })
+  })
+
+  describe('re-minting', () => {
+    const remint = async (minted: bigint, totalMinted: bigint) => {
+      const issuerKey = newIdentityKey()
+      const { genesis, tokenId } = await mint(issuerKey, tokenMetadata({ mintable: true, maxSupply: '5000' }))
+      return buildTx([{ tx: genesis, outputIndex: 1 }], [
+        await lockTokenOutput({ tokenId, amount: minted, ownerKey: issuerKey }),
+        await lockMintAuthority({ tokenId, issuerKey, maxSupply: 5000n, totalMinted })
+      ])
+    }
+
+    it('admits new supply that advances the authority within its cap', async () => {
+      assert.deepEqual(await admitted(await remint(4000n, 5000n), [0]), [0, 1])
+    })
+
+    it('rejects new supply beyond the cap', async () => {
+      const tx = await remint(4001n, 5001n)
+      assert.deepEqual(await admitted(tx, [0]), [])
+      assert.deepEqual(await rejections(tx), [
+        ['INVALID_MINT_AUTHORITY', 'totalMinted', 'at most 5000', '5001'],
+        ['INVALID_MINT_AUTHORITY', 'totalMinted', 'at most 5000', '5001']
+      ])
+    })
+
+    it('rejects an authority that does not account for what was minted', async () => {
+      assert.deepEqual(await admitted(await remint(500n, 1000n), [0]), [])
+    })
+
+    it('rejects new supply without spending the authority', async () => {
+      const { genesis, tokenId } = await mint(newIdentityKey(), tokenMetadata({ mintable: true }))
+      const tx = buildTx([{ tx: genesis, outputIndex: 0 }], [
+        await lockTokenOutput({ tokenId, amount: 2000n, ownerKey: newIdentityKey() })
+      ])
+      assert.deepEqual(await admitted(tx, [0]), [])
+    })
+  })
+})
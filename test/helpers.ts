@@ -0,0 +1,124 @@
+import { LockingScript, PrivateKey, Random, Transaction, UnlockingScript, Utils } from '@bsv/sdk'
+import { LookupService } from '@bsv/overlay'
+import { Db, MongoClient } from 'mongodb'
+import { MongoMemoryServer } from 'mongodb-memory-server'
+import { GENESIS_TOKEN_ID } from '../src/services/token/TokenId.js'
+import { lockMintAuthority, lockTokenOutput } from '../src/services/token/TokenOutput.js'
+
+export interface TestMongo {
+  uri: string
+  db: Db
+  stop: () => Promise<void>
+}
+
+/**
+ * Start a throwaway in-memory MongoDB, or, when MONGO_URL is set, use a
+ * throwaway database on that server instead of downloading mongod
+ */
+export async function startMongo(): Promise<TestMongo> {
+  const { MONGO_URL } = process.env
+  if (MONGO_URL) {
+    const client = await new MongoClient(MONGO_URL).connect()
+    const db = client.db(`tokens-test-${Utils.toHex(Random(4))}`)
+    return {
+      uri: MONGO_URL,
+      db,
+      stop: async () => {
+        await db.dropDatabase()
+        await client.close()
+      }
+    }
+  }
+
+  const server = await MongoMemoryServer.create()
+  const client = await new MongoClient(server.getUri()).connect()
+  return {
+    uri: server.getUri(),
+    db: client.db('tokens-test'),
+    stop: async () => {
+      await client.close()
+      await server.stop()
+    }
+  }
+}
+
+export function newIdentityKey(): string {
+  return PrivateKey.fromRandom().toPublicKey().toString()
+}
+
+export function tokenMetadata(overrides: Record<string, unknown> = {}) {
+  return { name: 'Test Token', symbol: 'TST', decimals: 0, totalSupply: '1000', ...overrides }
+}
+
+/**
+ * A transaction spending the given outputs into the given locking scripts.
+ * Inputs get empty unlocking scripts: the topic manager and lookup service
+ * read amounts from the source transactions and never evaluate scripts.
+ */
+export function buildTx(
+  inputs: Array<{ tx: Transaction, outputIndex: number }>,
+  outputs: LockingScript[]
+): Transaction {
+  const tx = new Transaction()
+  for (const { tx: sourceTransaction, outputIndex } of inputs) {
+    tx.addInput({ sourceTransaction, sourceOutputIndex: outputIndex, unlockingScript: new UnlockingScript() })
+  }
+  for (const lockingScript of outputs) {
+    tx.addOutput({ lockingScript, satoshis: 1 })
+  }
+  return tx
+}
+
+/**
+ * A genesis transaction: the mint output at index 0, followed by a mint
+ * authority when the metadata is mintable
+ */
+export async function genesisTx(ownerKey: string, metadata: Record<string, unknown> = tokenMetadata()): Promise<Transaction> {
+  const amount = BigInt(metadata.totalSupply as string)
+  const outputs = [await lockTokenOutput({ tokenId: GENESIS_TOKEN_ID, amount, ownerKey, metadata })]
+  if (metadata.mintable === true) {
+    outputs.push(await lockMintAuthority({
+      tokenId: GENESIS_TOKEN_ID,
+      issuerKey: ownerKey,
+      maxSupply: metadata.maxSupply === undefined ? undefined : BigInt(metadata.maxSupply as string),
+      totalMinted: amount
+    }))
+  }
+  return buildTx([], outputs)
+}
+
+/**
+ * Admit outputs of a transaction to the lookup service, as the engine does
+ * once the topic manager accepts them
+ */
+export async function admit(
+  lookupService: LookupService,
+  tx: Transaction,
+  outputIndexes: number[]
+): Promise<void> {
+  for (const outputIndex of outputIndexes) {
+    await lookupService.outputAdmittedByTopic({
+      mode: 'whole-tx',
+      atomicBEEF: tx.toAtomicBEEF(),
+      outputIndex,
+      topic: 'tm_tokens'
+    })
+  }
+}
+
+/**
+ * Tell the lookup service that an input of a transaction spent its output
+ */
+export async function spend(lookupService: LookupService, tx: Transaction, inputIndex: number): Promise<void> {
+  const input = tx.inputs[inputIndex]
+  await lookupService.outputSpent!({
+    mode: 'script',
+    txid: input.sourceTXID ?? input.sourceTransaction!.id('hex'),
+    outputIndex: input.sourceOutputIndex,
+    topic: 'tm_tokens',
+    spendingTxid: tx.id('hex'),
+    inputIndex,
+    unlockingScript: input.unlockingScript!,
+    sequenceNumber: input.sequence ?? 0xffffffff
+  })
+}